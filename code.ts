@@ -1,23 +1,73 @@
 // code.ts - Professional Accessibility Plugin with Advanced Features, Caching & Persistent History
-import { createSupabaseClient, SupabaseClient, AnalysisRecord } from './supabase-client';
+import {
+  createSupabaseClient,
+  testSupabaseConnection,
+  isSupabaseConfigured,
+  normalizeSupabaseConfig,
+  HISTORY_SCHEMA_VERSION,
+  SupabaseClient,
+  SupabaseConfig,
+  AuthSession,
+  WorkspaceMembership
+} from './supabase-client';
+import { HistoryStore, MemoryHistoryStore, ClientStorageHistoryStore, AnalysisRecord, StoredAnalysis } from './history-store';
+import { OutboxHistoryStore } from './history-outbox';
 
 figma.showUI(__html__, { width: 380, height: 750, themeColors: true });
 
 const PLUGIN_VERSION = '1.0.0';
 const CACHE_DURATION = 7 * 24 * 60 * 60 * 1000;
 const PLUGIN_DATA_KEY = 'a11y-analysis';
+const IDENTITY_STORAGE_KEY = 'a11y-identity';
+const SESSION_STORAGE_KEY = 'a11y-auth-session';
+const BACKEND_CONFIG_KEY = 'a11y-backend-config';
+const LOCAL_HISTORY_KEY = 'a11y-local-history';
+const OUTBOX_STORAGE_KEY = 'a11y-history-outbox';
+const FILE_HISTORY_KEY = 'a11y-remote-history';
+const FILE_KEY_DATA_KEY = 'a11y-file-key';
+
+const RULE_THRESHOLDS = {
+  letterSpacingEm: 0.12,
+  lineHeightRatio: 1.5,
+  paragraphSpacingRatio: 2.0,
+  nonTextContrast: 3.0,
+  targetSizeAA: 24,
+  targetSizeAAA: 44
+};
 
 const analysisCache = new Map<string, CachedAnalysis>();
 
+// Where history is read and written; the Supabase client doubles as the store when configured
+let historyStore: HistoryStore = new MemoryHistoryStore('');
 let supabaseClient: SupabaseClient | null = null;
-let currentUserId: string = 'figma-user-' + Date.now();
+let historyOutbox: OutboxHistoryStore | null = null;
+// The signed-in Supabase user; history rows are written and read under this id
+let currentUserId: string = '';
+let currentIdentity: PluginIdentity | null = null;
+let backendConfig: SupabaseConfig | null = null;
+let workspaceMembership: WorkspaceMembership | null = null;
+// Identifies this document in history records; frame ids alone repeat across files
+let currentFileKey: string = '';
 let currentSessionId: string | null = null;
+// Identifies fixes made in this plugin run, independent of the history backend session
+const journalSessionId = 'session-' + Date.now().toString(36);
 let sessionFrameCount: number = 0;
 
+interface PluginIdentity {
+  id: string;
+  name: string;
+}
+
+// Whose audits the frame history shows: the current user's or the whole workspace's
+type HistoryScope = 'mine' | 'team';
+
 interface CachedAnalysis {
   timestamp: number;
   version: string;
+  schemaVersion: number;
   contentHash: string;
+  ruleConfigs?: { [ruleId: string]: string };
+  nodeKeys?: { [nodeId: string]: string };
   results: AccessibilityIssue[];
 }
 
@@ -37,40 +87,356 @@ interface AccessibilityIssue {
     width: number;
     height: number;
   };
+  textRange?: TextRange;
+  contrastRange?: {
+    worst: number;
+    best: number;
+  };
+  sampledContrast?: {
+    min: number;
+    median: number;
+    failingShare: number;
+  };
+  contrastAlgorithm?: ContrastAlgorithm;
+  // Digest of the background the contrast was measured against; contrast waivers are granted against it
+  backgroundKey?: string;
+  alternatives?: FixAlternative[];
+  waiver?: IssueWaiver;
+  fingerprint?: string;
+  measuredValue?: number;
+}
+
+interface FixAlternative {
+  label: string;
+  color: string;
+  deltaE: number;
+  fix: any;
+}
+
+interface TextRange {
+  start: number;
+  end: number;
+  text: string;
+}
+
+type ContrastAlgorithm = 'wcag2' | 'apca';
+
+interface ResolvedBackground {
+  color: RGB;
+  candidates: RGB[];
+  ambiguous: boolean;
+  // Topmost opaque solid fill that covers the node, i.e. the paint a background fix would change
+  source?: { nodeId: string; fillIndex: number; bound: boolean };
+  // Gradient or image paints sit underneath, which only rasterized sampling can measure
+  unresolvedPaint: boolean;
+}
+
+interface ContrastRange {
+  worst: number;
+  best: number;
+  worstBackground: RGB;
+  median?: number;
+  ratios?: number[];
+}
+
+interface BatchFrameSummary {
+  frameId: string;
+  frameName: string;
+  pageName: string;
+  totalIssues: number;
+  failCount: number;
+  warningCount: number;
+  waivedCount: number;
+  fromCache: boolean;
+}
+
+type BatchScope = 'selection' | 'page' | 'file';
+
+interface InteractiveTarget {
+  id: string;
+  bounds: Rect;
+}
+
+// One per analyze request; the UI allocates the id and drops messages that don't carry its current one.
+// Live runs get one too so a manual run can stop them, but their messages carry no id.
+interface AnalysisRun {
+  id: number;
+  cancelled: boolean;
+  live?: boolean;
+}
+
+interface AnalysisResultsOptions {
+  fromCache?: boolean;
+  cacheAge?: string;
+  live?: boolean;
+  partial?: boolean;
+  runId?: number;
 }
 
+// How long a traversal may hold the main thread before yielding back to Figma
+const ANALYSIS_SLICE_MS = 30;
+
 let selectedFrame: FrameNode | null = null;
+let selectedFrames: FrameNode[] = [];
 let currentIssues: AccessibilityIssue[] = [];
 let overlayFrame: FrameNode | null = null;
 let isPaused = false;
+let activeRun: AnalysisRun | null = null;
+let resumeRun: (() => void) | null = null;
 let analysisProgress = 0;
 let totalElements = 0;
 
-async function initializePlugin() {
+// figma.currentUser.id is stable for a Figma account on every machine; the copy
+// in client storage keeps the identity when the user is not available
+async function loadIdentity(): Promise<PluginIdentity> {
+  const stored: PluginIdentity | undefined = await figma.clientStorage.getAsync(IDENTITY_STORAGE_KEY);
+  const user = figma.currentUser;
+
+  const identity: PluginIdentity = {
+    id: user && user.id
+      ? `figma:${user.id}`
+      : stored ? stored.id : `local:${Date.now().toString(36)}${Math.random().toString(36).slice(2, 10)}`,
+    name: user ? user.name : stored ? stored.name : ''
+  };
+
+  if (!stored || stored.id !== identity.id || stored.name !== identity.name) {
+    await figma.clientStorage.setAsync(IDENTITY_STORAGE_KEY, identity);
+  }
+
+  return identity;
+}
+
+// figma.fileKey is only exposed to private plugins; otherwise an id stored in the
+// document stands in for it, shared by everyone who opens the file
+function loadFileKey(): string {
+  if (figma.fileKey) {
+    return figma.fileKey;
+  }
+
+  const stored = figma.root.getPluginData(FILE_KEY_DATA_KEY);
+  if (stored) {
+    return stored;
+  }
+
+  const generated = `file:${Date.now().toString(36)}${Math.random().toString(36).slice(2, 10)}`;
   try {
-    supabaseClient = createSupabaseClient(currentUserId);
+    figma.root.setPluginData(FILE_KEY_DATA_KEY, generated);
+  } catch (error) {
+    // Read-only access: this run gets an id of its own
+    console.warn('Could not store the file id:', error);
+  }
+  return generated;
+}
 
-    if (supabaseClient) {
-      currentSessionId = await supabaseClient.startSession();
-      console.log('✓ Supabase connected. Persistent history enabled.');
-      figma.ui.postMessage({ type: 'supabase-connected' });
+// Client storage is shared by every Figma account on the machine, and a session
+// is only valid for the project that issued it
+function getSessionStorageKey(config: SupabaseConfig): string {
+  return `${SESSION_STORAGE_KEY}:${config.url}:${currentIdentity ? currentIdentity.id : ''}`;
+}
 
-      await loadUnresolvedChanges();
-    } else {
-      console.log('⚠ Supabase not configured. Using local cache only.');
-      figma.ui.postMessage({ type: 'supabase-disconnected' });
+async function loadBackendConfig(): Promise<SupabaseConfig | null> {
+  const stored: SupabaseConfig | undefined = await figma.clientStorage.getAsync(BACKEND_CONFIG_KEY);
+  return stored ? normalizeSupabaseConfig(stored) : null;
+}
+
+// Kept in the document rather than client storage so the opt-out holds for
+// everyone who opens the file
+function isRemoteHistoryEnabledForFile(): boolean {
+  return figma.root.getPluginData(FILE_HISTORY_KEY) !== 'off';
+}
+
+function postSettings() {
+  figma.ui.postMessage({
+    type: 'settings',
+    config: backendConfig || { url: '', anonKey: '', workspace: '' },
+    remoteHistoryEnabled: isRemoteHistoryEnabledForFile(),
+    connected: !!supabaseClient,
+    storage: historyStore.kind,
+    membership: workspaceMembership,
+    requiredSchemaVersion: HISTORY_SCHEMA_VERSION
+  });
+}
+
+function getIdentityMetadata(): Record<string, string> {
+  return currentIdentity
+    ? { figma_identity: currentIdentity.id, name: currentIdentity.name }
+    : {};
+}
+
+function handleSessionChange(client: SupabaseClient, storageKey: string, session: AuthSession | null) {
+  if (client === supabaseClient) {
+    currentUserId = session ? session.userId : '';
+  }
+
+  (session ? figma.clientStorage.setAsync(storageKey, session) : figma.clientStorage.deleteAsync(storageKey))
+    .catch(error => console.error('Failed to store auth session:', error));
+}
+
+function postAuthState() {
+  const session = supabaseClient ? supabaseClient.getSession() : null;
+  figma.ui.postMessage({
+    type: 'auth-state',
+    available: !!supabaseClient,
+    signedIn: !!session,
+    email: session ? session.email : null,
+    anonymous: session ? session.isAnonymous : false
+  });
+}
+
+// Falls back to an anonymous account so history works before the designer signs
+// in with email; that history stays on this machine's account
+async function ensureSession(): Promise<AuthSession> {
+  let session: AuthSession | null;
+  try {
+    session = await supabaseClient!.restoreSession();
+  } catch (error) {
+    // Offline with an expired token: keep it, writes queue in the outbox until it refreshes
+    const stale = supabaseClient!.getSession();
+    if (!stale) throw error;
+    console.warn('Could not refresh the session, history writes will be queued:', error);
+    return stale;
+  }
+  return session || await supabaseClient!.signInAnonymously(getIdentityMetadata());
+}
+
+async function startHistorySession() {
+  if (supabaseClient) {
+    await ensureSession();
+    postAuthState();
+    await enterWorkspace();
+  }
+
+  currentSessionId = await historyStore.startSession();
+  sessionFrameCount = 0;
+  await loadUnresolvedChanges();
+}
+
+// Team writes are rejected until the user is a member, so this runs before the
+// session starts. Offline, membership from an earlier run is assumed.
+async function enterWorkspace() {
+  try {
+    workspaceMembership = await supabaseClient!.enterWorkspace();
+  } catch (error) {
+    if (supabaseClient!.isPermanentFailure(error)) {
+      throw new Error(`Could not join workspace "${backendConfig!.workspace}". Check the join code in Settings.`);
     }
+    console.warn('Could not confirm workspace membership:', error);
+  }
+}
+
+async function endHistorySession() {
+  if (!currentSessionId) return;
+
+  const sessionId = currentSessionId;
+  currentSessionId = null;
+  try {
+    await historyStore.endSession(sessionId, sessionFrameCount);
+  } catch (error) {
+    console.error('Failed to end session:', error);
+  }
+}
+
+// History stays on this machine when no backend is configured or the file opts
+// out of remote history
+async function openLocalHistoryStore(): Promise<HistoryStore> {
+  const workspace = backendConfig ? backendConfig.workspace : '';
+  try {
+    return await ClientStorageHistoryStore.open(`${LOCAL_HISTORY_KEY}:${workspace}`, currentFileKey);
+  } catch (error) {
+    console.error('Failed to open local history, keeping it in memory:', error);
+    return new MemoryHistoryStore(currentFileKey);
+  }
+}
+
+function postHistoryStore(reason?: string) {
+  figma.ui.postMessage({ type: 'history-store', storage: historyStore.kind, reason });
+  postSyncStatus(historyOutbox ? historyOutbox.pendingCount : 0, null);
+}
+
+function postSyncStatus(pending: number, lastError: string | null) {
+  figma.ui.postMessage({ type: 'sync-status', pending, lastError });
+}
+
+// Writes are queued per project, workspace and Figma account, like the session
+function getOutboxStorageKey(config: SupabaseConfig): string {
+  return `${OUTBOX_STORAGE_KEY}:${config.url}:${config.workspace}:${currentIdentity ? currentIdentity.id : ''}`;
+}
+
+function closeHistoryOutbox() {
+  if (historyOutbox) {
+    historyOutbox.close();
+    historyOutbox = null;
+  }
+}
+
+// (Re)connects history using the current settings; called at startup and
+// whenever the backend settings or the file's opt-out change
+async function connectHistoryBackend() {
+  await endHistorySession();
+  closeHistoryOutbox();
+  supabaseClient = null;
+  workspaceMembership = null;
+  currentUserId = '';
+
+  const remoteEnabled = isRemoteHistoryEnabledForFile();
+  if (!remoteEnabled || !isSupabaseConfigured(backendConfig)) {
+    const reason = remoteEnabled ? 'not-configured' : 'file-opt-out';
+    console.log(remoteEnabled
+      ? '⚠ Supabase not configured. Keeping history on this machine.'
+      : '⚠ Remote history is off for this file. Keeping history on this machine.');
+
+    historyStore = await openLocalHistoryStore();
+    figma.ui.postMessage({ type: 'supabase-disconnected', reason });
+    postHistoryStore(reason);
+    postAuthState();
+    await startHistorySession().catch(error => console.error('Failed to start history session:', error));
+    return;
+  }
+
+  try {
+    const storageKey = getSessionStorageKey(backendConfig);
+    const storedSession: AuthSession | undefined = await figma.clientStorage.getAsync(storageKey);
+    const client = createSupabaseClient(backendConfig, storedSession || null, currentFileKey)!;
+    client.onSessionChange = session => handleSessionChange(client, storageKey, session);
+
+    const outbox = await OutboxHistoryStore.open(client, getOutboxStorageKey(backendConfig));
+    outbox.onPendingChange = postSyncStatus;
+
+    supabaseClient = client;
+    historyOutbox = outbox;
+    historyStore = outbox;
+    currentUserId = storedSession ? storedSession.userId : '';
+
+    await startHistorySession();
+    // Writes left over from an earlier run go out now rather than after their backoff
+    outbox.flush(true);
+    console.log('✓ Supabase connected. Persistent history enabled.');
+    figma.ui.postMessage({ type: 'supabase-connected' });
+    postHistoryStore();
   } catch (error) {
-    console.error('Failed to initialize Supabase:', error);
+    console.error('Failed to initialize Supabase, keeping history on this machine:', error);
+    closeHistoryOutbox();
+    supabaseClient = null;
+    historyStore = await openLocalHistoryStore();
     figma.ui.postMessage({ type: 'supabase-error', message: String(error) });
+    postAuthState();
+    postHistoryStore('connection-failed');
+    await startHistorySession().catch(sessionError => console.error('Failed to start history session:', sessionError));
   }
 }
 
-async function loadUnresolvedChanges() {
-  if (!supabaseClient) return;
+async function initializePlugin() {
+  currentIdentity = await loadIdentity();
+  currentFileKey = loadFileKey();
+  figma.ui.postMessage({ type: 'current-user', name: currentIdentity.name });
+
+  backendConfig = await loadBackendConfig();
+  await connectHistoryBackend();
+}
 
+async function loadUnresolvedChanges() {
   try {
-    const unresolvedChanges = await supabaseClient.getUnresolvedChanges();
+    const unresolvedChanges = await historyStore.getUnresolvedChanges();
 
     if (unresolvedChanges.length > 0) {
       figma.ui.postMessage({
@@ -83,24 +449,32 @@ async function loadUnresolvedChanges() {
   }
 }
 
-async function checkFrameForChanges(frame: FrameNode): Promise<boolean> {
-  if (!supabaseClient) return false;
+// Latest analysis hash each frame has already been reported as changed from, so live runs
+// record one change per analysis rather than one per edit
+const reportedFrameChanges = new Map<string, string>();
 
+async function checkFrameForChanges(frame: FrameNode, currentHash: string): Promise<boolean> {
   try {
-    const latestAnalysis = await supabaseClient.getLatestAnalysis(frame.id);
+    const latestAnalysis = await historyStore.getLatestAnalysis(frame.id);
 
     if (!latestAnalysis) {
       return false;
     }
 
-    const currentHash = generateContentHash(frame);
+    // Hashes from an older fingerprint schema can't be compared; the next analysis replaces them
+    if (getHashSchemaVersion(latestAnalysis.content_hash) !== FINGERPRINT_SCHEMA_VERSION) {
+      return false;
+    }
 
     if (currentHash !== latestAnalysis.content_hash) {
-      await supabaseClient.detectFrameChange(
-        frame.id,
-        latestAnalysis.content_hash,
-        currentHash
-      );
+      if (reportedFrameChanges.get(frame.id) !== latestAnalysis.content_hash) {
+        reportedFrameChanges.set(frame.id, latestAnalysis.content_hash);
+        await historyStore.detectFrameChange(
+          frame.id,
+          latestAnalysis.content_hash,
+          currentHash
+        );
+      }
 
       return true;
     }
@@ -112,18 +486,14 @@ async function checkFrameForChanges(frame: FrameNode): Promise<boolean> {
   }
 }
 
-async function loadPersistentAnalysis(frame: FrameNode): Promise<CachedAnalysis | null> {
-  if (!supabaseClient) return null;
-
+async function loadPersistentAnalysis(frame: FrameNode, currentHash: string): Promise<CachedAnalysis | null> {
   try {
-    const latestAnalysis = await supabaseClient.getLatestAnalysis(frame.id);
+    const latestAnalysis = await historyStore.getLatestAnalysis(frame.id);
 
     if (!latestAnalysis) {
       return null;
     }
 
-    const currentHash = generateContentHash(frame);
-
     if (currentHash !== latestAnalysis.content_hash) {
       console.log('⚠ Frame has changed since last analysis');
       return null;
@@ -132,14 +502,16 @@ async function loadPersistentAnalysis(frame: FrameNode): Promise<CachedAnalysis
     const cached: CachedAnalysis = {
       timestamp: new Date(latestAnalysis.analyzed_at).getTime(),
       version: PLUGIN_VERSION,
+      schemaVersion: FINGERPRINT_SCHEMA_VERSION,
       contentHash: latestAnalysis.content_hash,
+      ruleConfigs: latestAnalysis.analysis_data.rule_configs,
       results: latestAnalysis.analysis_data.issues || []
     };
 
     analysisCache.set(frame.id, cached);
     frame.setPluginData(PLUGIN_DATA_KEY, JSON.stringify(cached));
 
-    console.log('✓ Loaded analysis from Supabase:', frame.name);
+    console.log('✓ Loaded analysis from history:', frame.name);
     return cached;
   } catch (error) {
     console.error('Failed to load persistent analysis:', error);
@@ -147,34 +519,45 @@ async function loadPersistentAnalysis(frame: FrameNode): Promise<CachedAnalysis
   }
 }
 
-async function savePersistentAnalysis(frame: FrameNode, results: AccessibilityIssue[]): Promise<void> {
-  if (!supabaseClient) return;
-
+async function savePersistentAnalysis(
+  frame: FrameNode,
+  results: AccessibilityIssue[],
+  contentHash: string,
+  ruleConfigs: { [ruleId: string]: string }
+): Promise<void> {
   try {
-    const failCount = results.filter(r => r.severity === 'fail').length;
-    const warningCount = results.filter(r => r.severity === 'warning').length;
+    const counts = getIssueCounts(results);
 
+    const page = getPageOf(frame);
     const analysisRecord: AnalysisRecord = {
+      file_key: currentFileKey,
+      file_name: figma.root.name,
+      page_id: page ? page.id : '',
+      page_name: page ? page.name : '',
       frame_id: frame.id,
       frame_name: frame.name,
       user_id: currentUserId,
-      content_hash: generateContentHash(frame),
-      total_issues: results.length,
-      fail_count: failCount,
-      warning_count: warningCount,
+      author_name: currentIdentity ? currentIdentity.name : '',
+      content_hash: contentHash,
+      total_issues: counts.totalIssues,
+      fail_count: counts.failCount,
+      warning_count: counts.warningCount,
+      waived_count: counts.waivedCount,
       analysis_data: {
         issues: results,
-        plugin_version: PLUGIN_VERSION
+        plugin_version: PLUGIN_VERSION,
+        fingerprint_schema: FINGERPRINT_SCHEMA_VERSION,
+        rule_configs: ruleConfigs
       },
       plugin_version: PLUGIN_VERSION
     };
 
-    await supabaseClient.saveAnalysis(analysisRecord);
-    await supabaseClient.resolveFrameChanges(frame.id);
+    await historyStore.saveAnalysis(analysisRecord);
+    await historyStore.resolveFrameChanges(frame.id);
 
     sessionFrameCount++;
 
-    console.log('✓ Analysis saved to Supabase:', frame.name);
+    console.log('✓ Analysis saved to history:', frame.name);
   } catch (error) {
     console.error('Failed to save persistent analysis:', error);
   }
@@ -182,7 +565,8 @@ async function savePersistentAnalysis(frame: FrameNode, results: AccessibilityIs
 
 initializePlugin();
 
-function getCachedAnalysis(frame: FrameNode): CachedAnalysis | null {
+// Returns a compatible cache entry even if the frame has changed since, for incremental re-analysis
+function readCachedAnalysis(frame: FrameNode): CachedAnalysis | null {
   let cached = analysisCache.get(frame.id);
 
   if (!cached) {
@@ -202,21 +586,28 @@ function getCachedAnalysis(frame: FrameNode): CachedAnalysis | null {
 
   if (!cached) return null;
 
-  if (isCacheValid(frame, cached)) {
-    console.log('✓ Using valid cache for:', frame.name);
-    return cached;
+  if (!isCacheCompatible(cached)) {
+    clearFrameCache(frame);
+    return null;
   }
 
-  console.log('✗ Cache invalid for:', frame.name);
-  clearFrameCache(frame);
-  return null;
+  return cached;
 }
 
-function setCachedAnalysis(frame: FrameNode, results: AccessibilityIssue[]): void {
+function setCachedAnalysis(
+  frame: FrameNode,
+  results: AccessibilityIssue[],
+  contentHash: string,
+  ruleConfigs: { [ruleId: string]: string },
+  nodeKeys?: { [nodeId: string]: string }
+): void {
   const cached: CachedAnalysis = {
     timestamp: Date.now(),
     version: PLUGIN_VERSION,
-    contentHash: generateContentHash(frame),
+    schemaVersion: FINGERPRINT_SCHEMA_VERSION,
+    contentHash: contentHash,
+    ruleConfigs: ruleConfigs,
+    nodeKeys: nodeKeys,
     results: results
   };
 
@@ -230,7 +621,7 @@ function setCachedAnalysis(frame: FrameNode, results: AccessibilityIssue[]): voi
   }
 }
 
-function isCacheValid(frame: FrameNode, cached: CachedAnalysis): boolean {
+function isCacheCompatible(cached: CachedAnalysis): boolean {
   if (isExpired(cached.timestamp)) {
     return false;
   }
@@ -239,14 +630,121 @@ function isCacheValid(frame: FrameNode, cached: CachedAnalysis): boolean {
     return false;
   }
 
-  const currentHash = generateContentHash(frame);
-  if (currentHash !== cached.contentHash) {
+  if (cached.schemaVersion !== FINGERPRINT_SCHEMA_VERSION) {
     return false;
   }
 
   return true;
 }
 
+// Everything that changes a rule's output for unchanged content, serialised per enabled rule
+function getRuleConfigs(checks: RuleSelection): { [ruleId: string]: string } {
+  const enabled: { [ruleId: string]: string } = {};
+  for (const rule of getSelectedRules(checks)) {
+    enabled[rule.id] = JSON.stringify(rule.config(resolveRuleOptions(rule, checks[rule.id])));
+  }
+  return enabled;
+}
+
+function getIssueRuleId(issue: AccessibilityIssue): string {
+  const rule = getIssueRule(issue);
+  return rule ? rule.id : issue.issueType;
+}
+
+function getChecksForRules(checks: RuleSelection, ruleIds: string[]): RuleSelection {
+  const scoped: RuleSelection = {};
+  for (const ruleId of ruleIds) {
+    if (checks[ruleId]) {
+      scoped[ruleId] = checks[ruleId];
+    }
+  }
+  return scoped;
+}
+
+// Re-runs as little as possible: rules whose configuration changed run on every node, and
+// when the content changed, the remaining cached rules run only on nodes whose key changed
+async function analyzeWithCache(
+  frame: FrameNode,
+  checks: RuleSelection,
+  forceReanalyze: boolean,
+  run?: AnalysisRun
+): Promise<{ results: AccessibilityIssue[]; cached: CachedAnalysis | null; reusedRules: string[]; recheckedNodes: number | null; partial: boolean; contentHash: string }> {
+  const stopped = { results: [], cached: null, reusedRules: [], recheckedNodes: null, partial: true, contentHash: '' };
+  const snapshot = await takeFrameSnapshot(frame, run);
+  if (!snapshot) return stopped;
+
+  const contentHash = snapshot.contentHash;
+  const requested = getRuleConfigs(checks);
+  // Another teammate's or an earlier session's audit of the same content seeds the cache
+  const stored = forceReanalyze ? null : (readCachedAnalysis(frame) || await loadPersistentAnalysis(frame, contentHash));
+  const storedConfigs = stored && stored.ruleConfigs ? stored.ruleConfigs : {};
+  const contentUnchanged = !!stored && stored.contentHash === contentHash;
+
+  const requestedRules = Object.keys(requested);
+  const isRequested = (issue: AccessibilityIssue) => requestedRules.includes(getIssueRuleId(issue));
+  const matchingRules = requestedRules.filter(ruleId => storedConfigs[ruleId] === requested[ruleId]);
+
+  if (stored && contentUnchanged && matchingRules.length === requestedRules.length) {
+    return { results: stored.results.filter(isRequested), cached: stored, reusedRules: requestedRules, recheckedNodes: null, partial: false, contentHash };
+  }
+
+  const nodeKeys = await computeNodeKeys(snapshot, run);
+  if (!nodeKeys) return stopped;
+
+  const canIncrement = !!stored && !contentUnchanged && !!stored.nodeKeys;
+  const incrementalRules = canIncrement || contentUnchanged ? matchingRules : [];
+  const fullRules = requestedRules.filter(ruleId => !incrementalRules.includes(ruleId));
+
+  let changedIds: Set<string> | null = null;
+  if (canIncrement && stored && stored.nodeKeys) {
+    const previousKeys = stored.nodeKeys;
+    changedIds = new Set(Object.keys(nodeKeys).filter(nodeId => previousKeys[nodeId] !== nodeKeys[nodeId]));
+  }
+
+  const issues: AccessibilityIssue[] = [];
+  totalElements = snapshot.frameNodes.length;
+  figma.ui.postMessage({ type: 'analysis-progress', progress: 0, total: totalElements, runId: getRunMessageId(run) });
+
+  let completed = true;
+  if (changedIds && changedIds.size > 0 && incrementalRules.length > 0) {
+    completed = await analyzeFrame(snapshot, getChecksForRules(checks, incrementalRules), issues, changedIds, run);
+  }
+  if (completed && fullRules.length > 0) {
+    completed = await analyzeFrame(snapshot, getChecksForRules(checks, fullRules), issues, undefined, run);
+  }
+
+  const kept = stored ? stored.results.filter(issue => {
+    const ruleId = getIssueRuleId(issue);
+    if (fullRules.includes(ruleId)) return false;
+    if (changedIds) return incrementalRules.includes(ruleId) && !!nodeKeys[issue.elementId] && !changedIds.has(issue.elementId);
+    // Rules that weren't requested stay cached only while the content is untouched
+    return contentUnchanged;
+  }) : [];
+
+  const ruleConfigs: { [ruleId: string]: string } = {};
+  if (contentUnchanged) {
+    Object.assign(ruleConfigs, storedConfigs);
+  }
+  for (const ruleId of requestedRules) {
+    ruleConfigs[ruleId] = requested[ruleId];
+  }
+
+  const merged = kept.concat(issues);
+  // A stopped run hasn't visited every node, so caching it would hide issues on the rest
+  if (completed) {
+    setCachedAnalysis(frame, merged, contentHash, ruleConfigs, nodeKeys);
+  }
+
+  return {
+    results: merged.filter(isRequested),
+    cached: null,
+    reusedRules: incrementalRules,
+    recheckedNodes: changedIds ? changedIds.size : null,
+    partial: !completed,
+    contentHash
+  };
+}
+
 function isExpired(timestamp: number): boolean {
   return (Date.now() - timestamp) > CACHE_DURATION;
 }
@@ -269,837 +767,4118 @@ function clearAllCaches(): void {
   figma.notify('✓ All caches cleared');
 }
 
-function generateContentHash(frame: FrameNode): string {
-  const fingerprint = {
-    childCount: frame.children.length,
-    texts: collectTextContent(frame),
-    colors: collectColors(frame),
-  };
+// Waivers live in shared plugin data so they travel with the node, across files and other plugins' readers
+const WAIVER_NAMESPACE = 'a11y_audit';
+const WAIVER_KEY = 'waivers';
 
-  return simpleHash(JSON.stringify(fingerprint));
+interface IssueWaiver {
+  issueKey: string;
+  issueType: string;
+  reason: string;
+  author: string;
+  createdAt: number;
+  propertyHash: string;
 }
 
-function collectTextContent(node: SceneNode): string[] {
-  const texts: string[] = [];
-
-  function walk(n: SceneNode) {
-    if (n.type === 'TEXT') {
-      texts.push(n.characters);
-    }
-    if ('children' in n) {
-      n.children.forEach(child => walk(child));
-    }
-  }
+// Waivers for issue types no rule reports any more fall back to the node's paints
+function getWaiverProperties(node: SceneNode, issue: AccessibilityIssue): any {
+  const rule = getIssueRule(issue);
+  return rule ? rule.waiverProperties(node, issue) : getPaintWaiverProperties(node);
+}
 
-  walk(node);
-  return texts;
+function getWaiverPropertyHash(node: SceneNode, issue: AccessibilityIssue): string {
+  return sha256(JSON.stringify(getWaiverProperties(node, issue)));
 }
 
-function collectColors(node: SceneNode): string[] {
-  const colors: string[] = [];
+function readWaivers(node: BaseNode): IssueWaiver[] {
+  const data = node.getSharedPluginData(WAIVER_NAMESPACE, WAIVER_KEY);
+  if (!data) return [];
 
-  function walk(n: SceneNode) {
-    if (n.type === 'TEXT') {
-      const fills = n.fills;
-      if (Array.isArray(fills)) {
-        fills.forEach(fill => {
-          if (fill.type === 'SOLID') {
-            colors.push(`${fill.color.r},${fill.color.g},${fill.color.b}`);
-          }
-        });
-      }
-    }
-    if ('children' in n) {
-      n.children.forEach(child => walk(child));
-    }
+  try {
+    return JSON.parse(data);
+  } catch (error) {
+    console.error('Failed to parse waivers:', error);
+    return [];
   }
-
-  walk(node);
-  return colors;
 }
 
-function simpleHash(str: string): string {
-  let hash = 0;
-  for (let i = 0; i < str.length; i++) {
-    const char = str.charCodeAt(i);
-    hash = ((hash << 5) - hash) + char;
-    hash = hash & hash;
-  }
-  return Math.abs(hash).toString(36);
+function writeWaivers(node: BaseNode, waivers: IssueWaiver[]): void {
+  node.setSharedPluginData(WAIVER_NAMESPACE, WAIVER_KEY, waivers.length > 0 ? JSON.stringify(waivers) : '');
 }
 
-function getCacheAge(timestamp: number): string {
-  const ageMs = Date.now() - timestamp;
-  const ageMinutes = Math.floor(ageMs / 60000);
-  const ageHours = Math.floor(ageMinutes / 60);
-  const ageDays = Math.floor(ageHours / 24);
+// Marks waived issues in place and drops waivers whose node has changed since they were granted
+function applyWaivers(issues: AccessibilityIssue[]): void {
+  const expired: { nodeId: string; issueKey: string }[] = [];
+  const waiversByNode = new Map<string, IssueWaiver[]>();
 
-  if (ageDays > 0) return `${ageDays}d ago`;
-  if (ageHours > 0) return `${ageHours}h ago`;
-  if (ageMinutes > 0) return `${ageMinutes}m ago`;
-  return 'just now';
-}
+  for (const issue of issues) {
+    delete issue.waiver;
 
-figma.on('selectionchange', async () => {
-  const selection = figma.currentPage.selection;
+    const node = figma.getNodeById(issue.elementId) as SceneNode | null;
+    if (!node) continue;
 
-  if (selection.length === 0) {
-    figma.ui.postMessage({ type: 'selection-error', message: 'No frame selected' });
-    selectedFrame = null;
-  } else if (selection.length > 1) {
-    figma.ui.postMessage({ type: 'selection-error', message: 'Multiple frames selected. Please select only one frame.' });
-    selectedFrame = null;
-  } else if (selection[0].type === 'FRAME') {
-    selectedFrame = selection[0] as FrameNode;
-    figma.ui.postMessage({ type: 'selection-valid', frameName: selectedFrame.name });
+    let waivers = waiversByNode.get(node.id);
+    if (!waivers) {
+      waivers = readWaivers(node);
+      waiversByNode.set(node.id, waivers);
+    }
 
-    const hasChanges = await checkFrameForChanges(selectedFrame);
+    const issueKey = getIssueFingerprint(issue);
+    const waiver = waivers.find(w => w.issueKey === issueKey);
+    if (!waiver) continue;
 
-    const cached = getCachedAnalysis(selectedFrame);
-    if (!cached && supabaseClient) {
-      const persistentCache = await loadPersistentAnalysis(selectedFrame);
-      if (persistentCache) {
-        figma.ui.postMessage({
-          type: 'cache-available',
-          age: getCacheAge(persistentCache.timestamp),
-          fromPersistent: true,
-          hasChanges: hasChanges
-        });
-        return;
-      }
+    if (waiver.propertyHash === getWaiverPropertyHash(node, issue)) {
+      issue.waiver = waiver;
+    } else {
+      waiversByNode.set(node.id, waivers.filter(w => w !== waiver));
+      writeWaivers(node, waiversByNode.get(node.id)!);
+      expired.push({ nodeId: node.id, issueKey });
     }
+  }
 
-    if (cached) {
-      figma.ui.postMessage({
-        type: 'cache-available',
-        age: getCacheAge(cached.timestamp),
-        fromPersistent: false,
-        hasChanges: hasChanges
-      });
-    } else if (hasChanges) {
-      figma.ui.postMessage({
-        type: 'frame-has-changes',
-        frameId: selectedFrame.id,
-        frameName: selectedFrame.name
-      });
-    }
-  } else {
-    figma.ui.postMessage({ type: 'selection-error', message: 'Please select a frame (not a single element)' });
-    selectedFrame = null;
+  if (expired.length > 0) {
+    console.log('Expired', expired.length, 'waivers on changed layers');
+    historyStore.expireWaivers(expired).catch(error => console.error('Failed to expire waivers:', error));
   }
-});
+}
 
-figma.ui.onmessage = async (msg) => {
-  if (msg.type === 'pause-analysis') {
-    isPaused = true;
-    figma.notify('⏸ Analysis paused');
-    figma.ui.postMessage({ type: 'analysis-paused' });
+async function waiveIssue(fingerprint: string, reason: string, author: string): Promise<void> {
+  const issue = findIssue(fingerprint);
+  const node = issue ? figma.getNodeById(issue.elementId) as SceneNode | null : null;
+
+  if (!issue || !node) {
+    figma.ui.postMessage({ type: 'error', message: 'Element not found' });
+    return;
   }
 
-  if (msg.type === 'resume-analysis') {
-    isPaused = false;
-    figma.notify('▶ Analysis resumed');
-    figma.ui.postMessage({ type: 'analysis-resumed' });
+  if (!reason || !reason.trim() || !author || !author.trim()) {
+    figma.ui.postMessage({ type: 'error', message: 'A waiver needs both a reason and an author' });
+    return;
   }
 
-  if (msg.type === 'analyze') {
-    try {
-      console.log('Analysis started');
-      isPaused = false;
-      analysisProgress = 0;
+  const waiver: IssueWaiver = {
+    issueKey: getIssueFingerprint(issue),
+    issueType: issue.issueType,
+    reason: reason.trim(),
+    author: author.trim(),
+    createdAt: Date.now(),
+    propertyHash: getWaiverPropertyHash(node, issue)
+  };
 
-      if (!selectedFrame) {
-        figma.ui.postMessage({ type: 'error', message: 'Please select a frame first' });
-        return;
-      }
+  writeWaivers(node, readWaivers(node).filter(w => w.issueKey !== waiver.issueKey).concat(waiver));
+  issue.waiver = waiver;
 
-      const forceReanalyze = msg.forceReanalyze || false;
+  try {
+    await historyStore.saveWaiver({
+      file_key: currentFileKey,
+      frame_id: selectedFrame ? selectedFrame.id : '',
+      node_id: node.id,
+      issue_key: waiver.issueKey,
+      issue_type: waiver.issueType,
+      reason: waiver.reason,
+      author: waiver.author,
+      property_hash: waiver.propertyHash
+    });
+  } catch (error) {
+    console.error('Failed to save waiver:', error);
+  }
 
-      if (!forceReanalyze) {
-        const cached = getCachedAnalysis(selectedFrame);
-        if (cached) {
-          console.log('⚡ Using cached results');
-          const groupedIssues = groupIssuesByElement(cached.results);
-          figma.ui.postMessage({
-            type: 'analysis-complete',
-            issues: groupedIssues,
-            totalIssues: cached.results.length,
-            fromCache: true,
-            cacheAge: getCacheAge(cached.timestamp)
-          });
-
-          if (cached.results.length > 0 && msg.showOverlay) {
-            currentIssues = cached.results;
-            await createOverlayFrame(selectedFrame, cached.results);
-          }
+  refreshAfterWaiverChange();
+}
 
-          figma.notify(`⚡ Loaded from cache (${getCacheAge(cached.timestamp)})`);
-          return;
-        }
-      }
+async function removeWaiver(fingerprint: string): Promise<void> {
+  const issue = findIssue(fingerprint);
+  const node = issue ? figma.getNodeById(issue.elementId) : null;
+  if (!issue || !node) return;
 
-      console.log('Running fresh analysis');
-      const checks = msg.checks;
-      currentIssues = [];
+  const issueKey = getIssueFingerprint(issue);
+  writeWaivers(node, readWaivers(node).filter(w => w.issueKey !== issueKey));
+  delete issue.waiver;
 
-      clearOverlays();
+  historyStore.expireWaivers([{ nodeId: node.id, issueKey }]).catch(error => console.error('Failed to expire waiver:', error));
 
-      totalElements = countElements(selectedFrame);
-      figma.ui.postMessage({ type: 'analysis-progress', progress: 0, total: totalElements });
+  refreshAfterWaiverChange();
+}
 
-      console.log('Analyzing frame:', selectedFrame.name, 'with', totalElements, 'elements');
-      await analyzeFrame(selectedFrame, checks);
-      console.log('Analysis complete. Issues found:', currentIssues.length);
+// Cached results don't need rewriting: applyWaivers re-reads waivers from the nodes on every load
+function refreshAfterWaiverChange(): void {
+  postAnalysisResults(currentIssues);
+}
 
-      setCachedAnalysis(selectedFrame, currentIssues);
-      await savePersistentAnalysis(selectedFrame, currentIssues);
+function getIssueCounts(issues: AccessibilityIssue[]) {
+  const active = issues.filter(issue => !issue.waiver);
+  return {
+    totalIssues: active.length,
+    failCount: active.filter(issue => issue.severity === 'fail').length,
+    warningCount: active.filter(issue => issue.severity === 'warning').length,
+    waivedCount: issues.length - active.length
+  };
+}
 
-      const groupedIssues = groupIssuesByElement(currentIssues);
+function postAnalysisResults(issues: AccessibilityIssue[], options: AnalysisResultsOptions = {}): void {
+  const counts = getIssueCounts(issues);
+  figma.ui.postMessage({
+    type: 'analysis-complete',
+    issues: groupIssuesByElement(issues),
+    totalIssues: counts.totalIssues,
+    waivedCount: counts.waivedCount,
+    fromCache: !!options.fromCache,
+    cacheAge: options.cacheAge,
+    live: !!options.live,
+    partial: !!options.partial,
+    runId: options.runId
+  });
+}
 
-      figma.ui.postMessage({
-        type: 'analysis-complete',
-        issues: groupedIssues,
-        totalIssues: currentIssues.length,
-        fromCache: false
-      });
+// Bump whenever the fingerprinted properties, the way they're hashed or the cached issue shape change,
+// so caches built from the old shape are discarded
+const FINGERPRINT_SCHEMA_VERSION = 4;
 
-      if (currentIssues.length > 0 && msg.showOverlay) {
-        await createOverlayFrame(selectedFrame, currentIssues);
-      }
+const FINGERPRINT_TEXT_FIELDS: (keyof Omit<StyledTextSegment, 'characters' | 'start' | 'end'>)[] = [
+  'fills', 'fillStyleId', 'fontName', 'fontSize', 'fontWeight', 'letterSpacing', 'lineHeight'
+];
 
-      figma.notify(`✓ Analysis complete! Found ${currentIssues.length} issues.`);
-    } catch (error) {
-      console.error('Analysis error:', error);
-      figma.ui.postMessage({ type: 'error', message: 'Analysis failed: ' + error });
-      figma.notify('❌ Analysis failed. Check console for details.');
-    }
-  }
+type TextSegmentSnapshot = Pick<StyledTextSegment, 'characters' | 'start' | 'end' | typeof FINGERPRINT_TEXT_FIELDS[number]>;
 
-  if (msg.type === 'apply-fix') {
-    await applyFix(msg.issueIndex, msg.fix);
-  }
+interface TextSnapshot {
+  readonly characters: string;
+  readonly paragraphSpacing: number;
+  readonly segments: ReadonlyArray<TextSegmentSnapshot>;
+}
 
-  if (msg.type === 'toggle-overlay') {
-    if (overlayFrame) {
-      overlayFrame.visible = msg.visible;
-    }
-  }
+// Plain copy of everything hashing and the rules read from one layer
+interface NodeSnapshot {
+  readonly id: string;
+  readonly type: NodeType;
+  readonly name: string;
+  readonly visible: boolean;
+  readonly bounds: Rect | null;
+  readonly width: number;
+  readonly height: number;
+  readonly rotation: number;
+  readonly opacity: number;
+  readonly effectiveOpacity: number;
+  readonly blendMode: BlendMode | null;
+  readonly isMask: boolean;
+  readonly clipsContent: boolean;
+  readonly fills: ReadonlyArray<Paint> | PluginAPI['mixed'] | null;
+  readonly fillStyleId: string | PluginAPI['mixed'] | null;
+  readonly strokes: ReadonlyArray<Paint> | null;
+  readonly strokeStyleId: string | null;
+  readonly strokeWeight: number | PluginAPI['mixed'] | null;
+  readonly reactions: ReadonlyArray<Reaction> | null;
+  readonly annotations: ReadonlyArray<Annotation> | null;
+  // Only captured inside the frame; layers below it contribute nothing but paint
+  readonly text: TextSnapshot | null;
+  readonly parentId: string | null;
+  readonly childIds: ReadonlyArray<string>;
+  // Position in paintOrder; descendants follow up to (not including) subtreeEnd
+  readonly zIndex: number;
+  readonly subtreeEnd: number;
+  // Short SHA-256 of getOwnFingerprint; the content hash and node keys are built from these
+  readonly ownHash: string;
+  // Live handle for the few operations that need the document: raster export, variable modes, font loading
+  readonly node: SceneNode;
+}
 
-  if (msg.type === 'clear-overlays') {
-    clearOverlays();
-  }
+// Immutable view of a frame taken in one traversal. The content hash, node keys, element
+// count and every rule read from it, so they all agree on what was analysed even if the
+// document changes while the run yields.
+interface FrameSnapshot {
+  readonly frame: NodeSnapshot;
+  readonly nodes: ReadonlyMap<string, NodeSnapshot>;
+  // The frame's subtree plus every visible layer painted before it, bottom-most first
+  readonly paintOrder: ReadonlyArray<NodeSnapshot>;
+  readonly frameNodes: ReadonlyArray<NodeSnapshot>;
+  readonly pageBackground: RGB;
+  readonly contentHash: string;
+}
 
-  if (msg.type === 'jump-to-element') {
-    const node = figma.getNodeById(msg.elementId);
-    if (node) {
-      figma.currentPage.selection = [node as SceneNode];
-      figma.viewport.scrollAndZoomIntoView([node as SceneNode]);
+type Writable<T> = { -readonly [K in keyof T]: T[K] };
+
+function snapshotNode(node: SceneNode, parentId: string | null, parentOpacity: number, withText: boolean): Writable<NodeSnapshot> {
+  const opacity = 'opacity' in node ? node.opacity : 1;
+
+  return {
+    id: node.id,
+    type: node.type,
+    name: node.name,
+    visible: node.visible,
+    bounds: node.absoluteBoundingBox,
+    width: node.width,
+    height: node.height,
+    rotation: 'rotation' in node ? node.rotation : 0,
+    opacity: opacity,
+    effectiveOpacity: parentOpacity * opacity,
+    blendMode: 'blendMode' in node ? node.blendMode : null,
+    isMask: 'isMask' in node ? node.isMask : false,
+    clipsContent: 'clipsContent' in node ? node.clipsContent : false,
+    fills: 'fills' in node ? node.fills : null,
+    fillStyleId: 'fillStyleId' in node ? node.fillStyleId : null,
+    strokes: 'strokes' in node ? node.strokes : null,
+    strokeStyleId: 'strokeStyleId' in node ? node.strokeStyleId : null,
+    strokeWeight: 'strokeWeight' in node ? node.strokeWeight : null,
+    reactions: 'reactions' in node ? node.reactions : null,
+    annotations: 'annotations' in node ? node.annotations : null,
+    text: withText && node.type === 'TEXT' ? {
+      characters: node.characters,
+      paragraphSpacing: node.paragraphSpacing,
+      segments: node.getStyledTextSegments(FINGERPRINT_TEXT_FIELDS)
+    } : null,
+    parentId: parentId,
+    childIds: 'children' in node ? node.children.map(child => child.id) : [],
+    zIndex: 0,
+    subtreeEnd: 0,
+    ownHash: '',
+    node: node
+  };
+}
+
+interface SliceClock {
+  start: number;
+}
+
+// Hands the main thread back to Figma once the current slice is used up; false once the run has stopped
+async function continueSlice(clock: SliceClock, run?: AnalysisRun): Promise<boolean> {
+  if (isRunPaused(run) || Date.now() - clock.start > ANALYSIS_SLICE_MS) {
+    await yieldToFigma(run);
+    clock.start = Date.now();
+  }
+  return !isRunStopped(run);
+}
+
+function isClippingContainer(node: { type: NodeType; clipsContent: boolean }): boolean {
+  return node.type === 'GROUP' || (node.type === 'FRAME' && node.clipsContent);
+}
+
+// Appends `root` and its subtree in paint order. Outside the frame only layers that can show
+// through are kept: hidden ones and clipping containers that don't reach `within` are dropped.
+// Walks with an explicit stack so it can pause between any two layers; false once the run has stopped.
+async function captureSubtree(
+  root: SceneNode,
+  rootParentId: string | null,
+  rootParentOpacity: number,
+  out: Writable<NodeSnapshot>[],
+  clock: SliceClock,
+  run?: AnalysisRun,
+  within?: Rect
+): Promise<boolean> {
+  const start = out.length;
+  const stack: { node: SceneNode; parentId: string | null; parentOpacity: number }[] = [
+    { node: root, parentId: rootParentId, parentOpacity: rootParentOpacity }
+  ];
+
+  while (stack.length > 0) {
+    if (!await continueSlice(clock, run)) return false;
+
+    const { node, parentId, parentOpacity } = stack.pop()!;
+    // Removed while the walk yielded; its parent's childIds are pruned once the walk is done
+    if (node.removed) continue;
+
+    if (within) {
+      if (!node.visible) continue;
+      const bounds = node.absoluteBoundingBox;
+      if (bounds && isClippingContainer({ type: node.type, clipsContent: 'clipsContent' in node && node.clipsContent }) &&
+          !boundsIntersect(bounds, within)) continue;
+    }
+
+    const entry = snapshotNode(node, parentId, parentOpacity, !within);
+    out.push(entry);
+
+    if ('children' in node) {
+      for (let i = node.children.length - 1; i >= 0; i--) {
+        stack.push({ node: node.children[i], parentId: node.id, parentOpacity: entry.effectiveOpacity });
+      }
     }
   }
 
-  if (msg.type === 'clear-cache') {
-    if (selectedFrame) {
-      clearFrameCache(selectedFrame);
-      figma.notify('✓ Cache cleared for this frame');
-      figma.ui.postMessage({ type: 'cache-cleared' });
+  // subtreeEnd holds the subtree's length until takeFrameSnapshot makes it absolute
+  const indexById = new Map<string, number>();
+  for (let i = start; i < out.length; i++) {
+    indexById.set(out[i].id, i);
+    out[i].subtreeEnd = 1;
+  }
+  for (let i = out.length - 1; i > start; i--) {
+    const parentIndex = indexById.get(out[i].parentId!);
+    if (parentIndex !== undefined) {
+      out[parentIndex].subtreeEnd = Math.max(out[parentIndex].subtreeEnd, i - parentIndex + out[i].subtreeEnd);
     }
   }
 
-  if (msg.type === 'clear-all-caches') {
-    clearAllCaches();
+  return true;
+}
+
+// Built in slices inside the run, so a large frame doesn't freeze Figma and can be cancelled.
+// An edit made while it yields may or may not be captured, layer by layer; the content hash
+// is taken from what was captured, so results are never cached under a state they weren't
+// computed from. Returns null once the run has stopped.
+async function takeFrameSnapshot(frame: FrameNode, run?: AnalysisRun): Promise<FrameSnapshot | null> {
+  const clock: SliceClock = { start: Date.now() };
+  const ancestors: SceneNode[] = [];
+  let page: PageNode | null = null;
+  for (let parent = frame.parent; parent; parent = parent.parent) {
+    if (parent.type === 'PAGE') {
+      page = parent;
+      break;
+    }
+    if (parent.type === 'DOCUMENT') break;
+    ancestors.unshift(parent as SceneNode);
   }
 
-  if (msg.type === 'get-cache-info') {
-    if (selectedFrame) {
-      const cached = getCachedAnalysis(selectedFrame);
-      figma.ui.postMessage({
-        type: 'cache-info',
-        hasCached: !!cached,
-        age: cached ? getCacheAge(cached.timestamp) : null
-      });
+  const inheritedOpacity = ancestors.reduce((opacity, ancestor) => opacity * ('opacity' in ancestor ? ancestor.opacity : 1), 1);
+  const frameEntries: Writable<NodeSnapshot>[] = [];
+  const frameParentId = frame.parent && frame.parent.type !== 'PAGE' ? frame.parent.id : null;
+  if (!await captureSubtree(frame, frameParentId, inheritedOpacity, frameEntries, clock, run)) return null;
+
+  // Below the frame, only layers that overlap something inside it can affect a background
+  const extent = getBoundsUnion(frameEntries) || { x: 0, y: 0, width: 0, height: 0 };
+
+  // Each level paints the container first, then its children up to the one on the path to the frame
+  const path = ancestors.concat(frame);
+  const backdrop: Writable<NodeSnapshot>[] = [];
+  const ancestorEntries: Writable<NodeSnapshot>[] = [];
+  let siblings: readonly SceneNode[] = page ? page.children : [];
+  let levelParentId: string | null = null;
+  let levelOpacity = 1;
+
+  for (let depth = 0; depth < path.length; depth++) {
+    for (const sibling of siblings.slice(0, siblings.indexOf(path[depth]))) {
+      if (!await captureSubtree(sibling, levelParentId, levelOpacity, backdrop, clock, run, extent)) return null;
     }
+    if (depth === path.length - 1) break;
+
+    const entry = snapshotNode(path[depth], levelParentId, levelOpacity, false);
+    const children = (path[depth] as SceneNode & ChildrenMixin).children;
+    entry.childIds = children.slice(0, children.indexOf(path[depth + 1]) + 1).map(child => child.id);
+    backdrop.push(entry);
+    ancestorEntries.push(entry);
+
+    siblings = children;
+    levelParentId = entry.id;
+    levelOpacity = entry.effectiveOpacity;
   }
 
-  if (msg.type === 'get-frame-history') {
-    if (selectedFrame && supabaseClient) {
-      try {
-        const history = await supabaseClient.getFrameHistory(selectedFrame.id);
-        figma.ui.postMessage({
-          type: 'frame-history',
-          history: history
-        });
-      } catch (error) {
-        console.error('Failed to load frame history:', error);
+  const paintOrder = backdrop.concat(frameEntries);
+  paintOrder.forEach((entry, index) => {
+    entry.zIndex = index;
+    entry.subtreeEnd = ancestorEntries.includes(entry) ? paintOrder.length : index + entry.subtreeEnd;
+  });
+
+  const nodes = new Map<string, NodeSnapshot>();
+  for (const entry of paintOrder) {
+    if (!await continueSlice(clock, run)) return null;
+    entry.ownHash = sha256(serialiseFingerprint(getOwnFingerprint(entry))).slice(0, 16);
+    nodes.set(entry.id, entry);
+  }
+
+  for (const entry of paintOrder) {
+    entry.childIds = Object.freeze(entry.childIds.filter(id => nodes.has(id)));
+    Object.freeze(entry);
+  }
+
+  const frameSnapshot = nodes.get(frame.id)!;
+  const frameNodes = paintOrder.slice(frameSnapshot.zIndex) as NodeSnapshot[];
+  const pageFill = page ? getSolidFill(page.backgrounds) : null;
+
+  // Pre-order with child counts pins down the tree, so hashing the per-layer hashes covers everything
+  const structure = frameNodes.map(node => `${node.ownHash}:${node.childIds.length}`).join('|');
+
+  return Object.freeze({
+    frame: frameSnapshot,
+    nodes: nodes,
+    paintOrder: Object.freeze(paintOrder as NodeSnapshot[]),
+    frameNodes: Object.freeze(frameNodes),
+    pageBackground: pageFill ? pageFill.color : { r: 1, g: 1, b: 1 },
+    contentHash: `v${FINGERPRINT_SCHEMA_VERSION}:${sha256(structure)}`
+  });
+}
+
+function getBoundsUnion(entries: ReadonlyArray<{ bounds: Rect | null }>): Rect | null {
+  return entries.reduce<Rect | null>((union, entry) => {
+    if (!entry.bounds) return union;
+    if (!union) return entry.bounds;
+    const x = Math.min(union.x, entry.bounds.x);
+    const y = Math.min(union.y, entry.bounds.y);
+    return {
+      x, y,
+      width: Math.max(union.x + union.width, entry.bounds.x + entry.bounds.width) - x,
+      height: Math.max(union.y + union.height, entry.bounds.y + entry.bounds.height) - y
+    };
+  }, null);
+}
+
+// Everything any rule (or background resolution beneath it) reads, plus geometry and visibility
+function getOwnFingerprint(node: NodeSnapshot): any {
+  const fingerprint: any = {
+    id: node.id,
+    type: node.type,
+    name: node.name,
+    visible: node.visible,
+    bounds: node.bounds,
+    rotation: node.rotation,
+    opacity: node.opacity,
+    blendMode: node.blendMode,
+    isMask: node.isMask,
+    clipsContent: node.clipsContent,
+    fills: node.fills,
+    fillStyleId: node.fillStyleId,
+    strokes: node.strokes,
+    strokeStyleId: node.strokeStyleId,
+    strokeWeight: node.strokeWeight,
+    reactions: node.reactions,
+    annotations: node.annotations
+  };
+
+  if (node.text) {
+    fingerprint.characters = node.text.characters;
+    fingerprint.paragraphSpacing = node.text.paragraphSpacing;
+    fingerprint.segments = node.text.segments;
+  }
+
+  return fingerprint;
+}
+
+function serialiseFingerprint(value: any): string {
+  return JSON.stringify(value, (key, v) => v === figma.mixed ? 'mixed' : v);
+}
+
+// Uniform grid over the paint order, so finding the layers under a node doesn't rescan
+// every layer. Layers spanning many cells (page backgrounds, large containers) are kept
+// in one list that every lookup checks.
+interface LayerIndex {
+  origin: { x: number; y: number };
+  cellSize: number;
+  columns: number;
+  rows: number;
+  cells: Map<number, NodeSnapshot[]>;
+  wide: NodeSnapshot[];
+}
+
+const LAYER_INDEX_CELLS = 64;
+const LAYER_INDEX_MAX_SPAN = 64;
+
+function getCellRange(index: LayerIndex, bounds: Rect) {
+  return {
+    x0: Math.max(0, Math.floor((bounds.x - index.origin.x) / index.cellSize)),
+    y0: Math.max(0, Math.floor((bounds.y - index.origin.y) / index.cellSize)),
+    x1: Math.min(index.columns - 1, Math.floor((bounds.x + bounds.width - index.origin.x) / index.cellSize)),
+    y1: Math.min(index.rows - 1, Math.floor((bounds.y + bounds.height - index.origin.y) / index.cellSize))
+  };
+}
+
+function buildLayerIndex(layers: ReadonlyArray<NodeSnapshot>): LayerIndex {
+  const extent = getBoundsUnion(layers) || { x: 0, y: 0, width: 0, height: 0 };
+  const cellSize = Math.max(1, Math.max(extent.width, extent.height) / LAYER_INDEX_CELLS);
+  const index: LayerIndex = {
+    origin: { x: extent.x, y: extent.y },
+    cellSize,
+    columns: Math.ceil(extent.width / cellSize) + 1,
+    rows: Math.ceil(extent.height / cellSize) + 1,
+    cells: new Map(),
+    wide: []
+  };
+
+  for (const layer of layers) {
+    if (!layer.bounds) continue;
+
+    const { x0, y0, x1, y1 } = getCellRange(index, layer.bounds);
+    if ((x1 - x0 + 1) * (y1 - y0 + 1) > LAYER_INDEX_MAX_SPAN) {
+      index.wide.push(layer);
+      continue;
+    }
+
+    for (let y = y0; y <= y1; y++) {
+      for (let x = x0; x <= x1; x++) {
+        const key = y * index.columns + x;
+        const cell = index.cells.get(key);
+        if (cell) cell.push(layer);
+        else index.cells.set(key, [layer]);
       }
     }
   }
 
-  if (msg.type === 'get-all-analyses') {
-    if (supabaseClient) {
-      try {
-        const analyses = await supabaseClient.getAllAnalyses(msg.limit || 50);
-        figma.ui.postMessage({
-          type: 'all-analyses',
-          analyses: analyses
-        });
-      } catch (error) {
-        console.error('Failed to load analyses:', error);
-      }
+  return index;
+}
+
+// Every layer painted before `node` that overlaps `bounds`, bottom-most first. A superset of
+// the overlapping layers collectLayersBelow returns (it also keeps layers a hidden or clipping
+// container would skip), which for node keys only means an occasional extra re-check.
+function findLayersBelow(index: LayerIndex, node: NodeSnapshot, bounds: Rect): NodeSnapshot[] {
+  const found = new Set<NodeSnapshot>();
+  const { x0, y0, x1, y1 } = getCellRange(index, bounds);
+
+  for (let y = y0; y <= y1; y++) {
+    for (let x = x0; x <= x1; x++) {
+      const cell = index.cells.get(y * index.columns + x);
+      if (cell) cell.forEach(layer => found.add(layer));
     }
   }
+  index.wide.forEach(layer => found.add(layer));
 
-  if (msg.type === 'load-analysis-by-id') {
-    try {
-      const node = figma.getNodeById(msg.frameId);
-      if (node && node.type === 'FRAME') {
-        figma.currentPage.selection = [node];
-        figma.viewport.scrollAndZoomIntoView([node]);
+  return Array.from(found)
+    .filter(layer => layer.zIndex < node.zIndex && boundsIntersect(layer.bounds!, bounds))
+    .sort((a, b) => a.zIndex - b.zIndex);
+}
+
+// Per-node keys change when the node itself, an ancestor, a layer painted beneath it
+// or (for targets) the set of neighbouring targets changes. Sliced like the snapshot;
+// null once the run has stopped.
+async function computeNodeKeys(snapshot: FrameSnapshot, run?: AnalysisRun): Promise<{ [nodeId: string]: string } | null> {
+  const clock: SliceClock = { start: Date.now() };
+  const targets = collectInteractiveTargets(snapshot);
+  const targetsHash = sha256(serialiseFingerprint(targets)).slice(0, 16);
+  const targetIds = new Set(targets.map(t => t.id));
+  const layerIndex = buildLayerIndex(snapshot.paintOrder);
+  const keys: { [nodeId: string]: string } = {};
+  const ancestry = new Map<string, string[]>();
+
+  // frameNodes is in pre-order, so a parent's ancestry is always known before its children's
+  for (const node of snapshot.frameNodes) {
+    if (!await continueSlice(clock, run)) return null;
+
+    const parentAncestry = node === snapshot.frame ? [] : ancestry.get(node.parentId!)!;
+    const parts = [node.ownHash, ...parentAncestry];
+    const bounds = node.bounds;
+
+    if (bounds && node !== snapshot.frame && (node.type === 'TEXT' || isNonTextCandidate(node))) {
+      for (const layer of findLayersBelow(layerIndex, node, bounds)) {
+        parts.push(layer.ownHash);
       }
-    } catch (error) {
-      console.error('Failed to load frame:', error);
+    }
+
+    if (targetIds.has(node.id)) {
+      parts.push(targetsHash);
+    }
+
+    keys[node.id] = sha256(parts.join('|')).slice(0, 16);
+    if (node.childIds.length > 0) {
+      ancestry.set(node.id, [node.ownHash, ...parentAncestry]);
     }
   }
-};
 
-figma.on('close', async () => {
-  if (supabaseClient && currentSessionId) {
-    try {
-      await supabaseClient.endSession(currentSessionId, sessionFrameCount);
-      console.log('✓ Session ended. Analyzed', sessionFrameCount, 'frames.');
-    } catch (error) {
-      console.error('Failed to end session:', error);
+  return keys;
+}
+
+function getHashSchemaVersion(hash: string): number {
+  const match = /^v(\d+):/.exec(hash);
+  return match ? Number(match[1]) : 1;
+}
+
+const SHA256_K = [
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+  0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+  0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+  0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+  0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+  0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2
+];
+
+// The plugin sandbox has no SubtleCrypto, so SHA-256 is done by hand
+function sha256(str: string): string {
+  const bytes = utf8Encode(str);
+  const bitLength = bytes.length * 8;
+  const paddedLength = Math.ceil((bytes.length + 9) / 64) * 64;
+  const data = new Uint8Array(paddedLength);
+  data.set(bytes);
+  data[bytes.length] = 0x80;
+
+  const view = new DataView(data.buffer);
+  view.setUint32(paddedLength - 8, Math.floor(bitLength / 0x100000000));
+  view.setUint32(paddedLength - 4, bitLength >>> 0);
+
+  const hash = [0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19];
+  const w = new Uint32Array(64);
+  const rotr = (x: number, n: number) => (x >>> n) | (x << (32 - n));
+
+  for (let offset = 0; offset < paddedLength; offset += 64) {
+    for (let i = 0; i < 16; i++) {
+      w[i] = view.getUint32(offset + i * 4);
+    }
+    for (let i = 16; i < 64; i++) {
+      const s0 = rotr(w[i - 15], 7) ^ rotr(w[i - 15], 18) ^ (w[i - 15] >>> 3);
+      const s1 = rotr(w[i - 2], 17) ^ rotr(w[i - 2], 19) ^ (w[i - 2] >>> 10);
+      w[i] = (w[i - 16] + s0 + w[i - 7] + s1) >>> 0;
+    }
+
+    let [a, b, c, d, e, f, g, h] = hash;
+    for (let i = 0; i < 64; i++) {
+      const s1 = rotr(e, 6) ^ rotr(e, 11) ^ rotr(e, 25);
+      const ch = (e & f) ^ (~e & g);
+      const temp1 = (h + s1 + ch + SHA256_K[i] + w[i]) >>> 0;
+      const s0 = rotr(a, 2) ^ rotr(a, 13) ^ rotr(a, 22);
+      const maj = (a & b) ^ (a & c) ^ (b & c);
+      const temp2 = (s0 + maj) >>> 0;
+
+      h = g;
+      g = f;
+      f = e;
+      e = (d + temp1) >>> 0;
+      d = c;
+      c = b;
+      b = a;
+      a = (temp1 + temp2) >>> 0;
     }
+
+    hash[0] = (hash[0] + a) >>> 0;
+    hash[1] = (hash[1] + b) >>> 0;
+    hash[2] = (hash[2] + c) >>> 0;
+    hash[3] = (hash[3] + d) >>> 0;
+    hash[4] = (hash[4] + e) >>> 0;
+    hash[5] = (hash[5] + f) >>> 0;
+    hash[6] = (hash[6] + g) >>> 0;
+    hash[7] = (hash[7] + h) >>> 0;
   }
-});
 
-function countElements(node: SceneNode): number {
-  let count = 1;
-  if ('children' in node) {
-    for (const child of node.children) {
-      count += countElements(child);
+  return hash.map(word => word.toString(16).padStart(8, '0')).join('');
+}
+
+function utf8Encode(str: string): Uint8Array {
+  const bytes: number[] = [];
+  for (let i = 0; i < str.length; i++) {
+    let code = str.charCodeAt(i);
+
+    if (code >= 0xd800 && code <= 0xdbff && i + 1 < str.length) {
+      code = 0x10000 + ((code - 0xd800) << 10) + (str.charCodeAt(++i) - 0xdc00);
+    }
+
+    if (code < 0x80) {
+      bytes.push(code);
+    } else if (code < 0x800) {
+      bytes.push(0xc0 | (code >> 6), 0x80 | (code & 0x3f));
+    } else if (code < 0x10000) {
+      bytes.push(0xe0 | (code >> 12), 0x80 | ((code >> 6) & 0x3f), 0x80 | (code & 0x3f));
+    } else {
+      bytes.push(0xf0 | (code >> 18), 0x80 | ((code >> 12) & 0x3f), 0x80 | ((code >> 6) & 0x3f), 0x80 | (code & 0x3f));
     }
   }
-  return count;
+  return new Uint8Array(bytes);
 }
 
-async function analyzeFrame(frame: FrameNode, checks: any) {
-  let processedElements = 0;
+function getCacheAge(timestamp: number): string {
+  const ageMs = Date.now() - timestamp;
+  const ageMinutes = Math.floor(ageMs / 60000);
+  const ageHours = Math.floor(ageMinutes / 60);
+  const ageDays = Math.floor(ageHours / 24);
 
-  async function checkNode(node: SceneNode) {
-    // Check if paused
-    if (isPaused) {
-      await new Promise(resolve => {
-        const checkPause = setInterval(() => {
-          if (!isPaused) {
-            clearInterval(checkPause);
-            resolve(null);
-          }
-        }, 100);
-      });
+  if (ageDays > 0) return `${ageDays}d ago`;
+  if (ageHours > 0) return `${ageHours}h ago`;
+  if (ageMinutes > 0) return `${ageMinutes}m ago`;
+  return 'just now';
+}
+
+figma.on('selectionchange', async () => {
+  const selection = figma.currentPage.selection;
+
+  if (selection.length === 0) {
+    figma.ui.postMessage({ type: 'selection-error', message: 'No frame selected' });
+    selectedFrame = null;
+    selectedFrames = [];
+  } else if (selection.length === 1 && selection[0].type === 'FRAME') {
+    selectedFrame = selection[0] as FrameNode;
+    selectedFrames = [selectedFrame];
+    figma.ui.postMessage({ type: 'selection-valid', frameName: selectedFrame.name });
+
+    if (liveMode) {
+      scheduleLiveRun();
     }
 
-    processedElements++;
-    analysisProgress = Math.round((processedElements / totalElements) * 100);
+    // Fingerprinting walks the whole frame, so selecting one only reports what is already
+    // known; the next analysis checks the cache against the content
+    const frame = selectedFrame;
+    const cached = readCachedAnalysis(frame);
+    const latestAnalysis = await historyStore.getLatestAnalysis(frame.id).catch(error => {
+      console.error('Failed to load latest analysis:', error);
+      return null;
+    });
+    if (frame !== selectedFrame) return;
 
-    // Send progress update every 10 elements
-    if (processedElements % 10 === 0) {
+    const hasChanges = !!latestAnalysis && latestAnalysis.has_changes;
+    if (cached) {
+      figma.ui.postMessage({
+        type: 'cache-available',
+        age: getCacheAge(cached.timestamp),
+        fromPersistent: false,
+        hasChanges: hasChanges
+      });
+    } else if (latestAnalysis && !hasChanges) {
+      figma.ui.postMessage({
+        type: 'cache-available',
+        age: getCacheAge(new Date(latestAnalysis.analyzed_at).getTime()),
+        fromPersistent: true,
+        hasChanges: false
+      });
+    } else if (hasChanges) {
       figma.ui.postMessage({
-        type: 'analysis-progress',
-        progress: analysisProgress,
-        current: processedElements,
-        total: totalElements
+        type: 'frame-has-changes',
+        frameId: selectedFrame.id,
+        frameName: selectedFrame.name
       });
     }
-    if (node.type === 'TEXT') {
-      if (checks.colorContrast) {
-        await checkTextContrast(node);
-      }
-      if (checks.textSpacing) {
-        checkTextSpacing(node);
-      }
-      if (checks.lineHeight) {
-        checkLineHeight(node);
-      }
-      if (checks.paragraphSpacing) {
-        checkParagraphSpacing(node);
+  } else {
+    selectedFrame = null;
+    selectedFrames = collectFrames(selection);
+
+    if (selectedFrames.length > 0) {
+      figma.ui.postMessage({ type: 'selection-batch', frameCount: selectedFrames.length });
+      if (liveMode) {
+        scheduleLiveRun();
       }
+    } else {
+      figma.ui.postMessage({ type: 'selection-error', message: 'Please select frames or a section (not a single element)' });
     }
+  }
+});
 
-    if (checks.nonTextContrast && (node.type === 'RECTANGLE' || node.type === 'ELLIPSE' || node.type === 'VECTOR')) {
-      checkNonTextContrast(node);
-    }
+figma.ui.onmessage = async (msg) => {
+  if (msg.type === 'pause-analysis') {
+    isPaused = true;
+    figma.notify('⏸ Analysis paused');
+    figma.ui.postMessage({ type: 'analysis-paused' });
+  }
 
-    if ('children' in node) {
-      for (const child of node.children) {
-        await checkNode(child);
-      }
-    }
+  if (msg.type === 'resume-analysis') {
+    releasePause();
+    figma.notify('▶ Analysis resumed');
+    figma.ui.postMessage({ type: 'analysis-resumed' });
   }
 
-  await checkNode(frame);
-}
+  if (msg.type === 'cancel-analysis') {
+    cancelRun(msg.runId);
+  }
 
-async function checkTextContrast(textNode: TextNode) {
-  try {
-    // Safely load font with error handling
-    const fontName = textNode.fontName;
-    if (fontName === figma.mixed) {
-      console.log('Mixed fonts detected, skipping:', textNode.name);
-      return;
-    }
+  if (msg.type === 'get-rules') {
+    figma.ui.postMessage({ type: 'rules', rules: describeRules() });
+  }
 
+  if (msg.type === 'analyze') {
+    const run = startRun(msg.runId);
     try {
-      await figma.loadFontAsync(fontName as FontName);
-    } catch (fontError) {
-      console.warn('Font loading failed for:', fontName, '- Using fallback');
-      // Try to load Inter Regular as fallback
-      try {
-        await figma.loadFontAsync({ family: 'Inter', style: 'Regular' });
-      } catch (fallbackError) {
-        console.error('Fallback font also failed, skipping node');
-        figma.ui.postMessage({
-          type: 'font-error',
-          message: `Could not load font: ${JSON.stringify(fontName)}`,
-          node: textNode.name
-        });
+      console.log('Analysis started');
+      analysisProgress = 0;
+
+      // Selection can change while the traversal yields, so hold on to the frame we started with
+      const frame = selectedFrame;
+      if (!frame) {
+        figma.ui.postMessage({ type: 'error', message: 'Please select a frame first', runId: run.id });
+        return;
+      }
+
+      const forceReanalyze = msg.forceReanalyze || false;
+      const checks = msg.checks;
+
+      clearOverlays();
+
+      console.log('Analyzing frame:', frame.name);
+      const { results, cached, reusedRules, recheckedNodes, partial, contentHash } = await analyzeWithCache(frame, checks, forceReanalyze, run);
+      if (run !== activeRun) {
+        console.log('Analysis superseded by a newer run');
         return;
       }
+      console.log('Analysis complete. Issues found:', results.length, 'Reused rules:', reusedRules.join(', ') || 'none');
+
+      currentIssues = results;
+      applyWaivers(currentIssues);
+
+      if (cached) {
+        postAnalysisResults(currentIssues, { fromCache: true, cacheAge: getCacheAge(cached.timestamp), runId: run.id });
+      } else if (partial) {
+        // Partial results stay out of history; only the UI sees them
+        postAnalysisResults(currentIssues, { partial: true, runId: run.id });
+      } else {
+        await savePersistentAnalysis(frame, currentIssues, contentHash, getRuleConfigs(checks));
+        postAnalysisResults(currentIssues, { runId: run.id });
+      }
+
+      const activeIssues = currentIssues.filter(issue => !issue.waiver);
+      if (activeIssues.length > 0 && msg.showOverlay) {
+        await createOverlayFrame(frame, activeIssues);
+      }
+
+      if (partial) {
+        figma.notify(`⏹ Analysis cancelled at ${analysisProgress}%. Showing ${activeIssues.length} issues found so far.`);
+      } else if (cached) {
+        figma.notify(`⚡ Loaded from cache (${getCacheAge(cached.timestamp)})`);
+      } else if (recheckedNodes !== null) {
+        figma.notify(`✓ ${recheckedNodes.toLocaleString()} of ${totalElements.toLocaleString()} nodes re-checked. Found ${activeIssues.length} issues.`);
+      } else if (reusedRules.length > 0) {
+        figma.notify(`✓ Analysis complete! Found ${activeIssues.length} issues (${reusedRules.length} rules reused from cache).`);
+      } else {
+        figma.notify(`✓ Analysis complete! Found ${activeIssues.length} issues.`);
+      }
+    } catch (error) {
+      console.error('Analysis error:', error);
+      figma.ui.postMessage({ type: 'error', message: 'Analysis failed: ' + error, runId: run.id });
+      figma.notify('❌ Analysis failed. Check console for details.');
+    } finally {
+      finishRun(run);
     }
-    
-    const fontSize = textNode.fontSize as number;
-    const bgColor = getBackgroundColor(textNode);
-    const textColor = getTextColor(textNode);
-
-    if (!bgColor || !textColor) return;
-
-    const ratio = getContrastRatio(textColor, bgColor);
-    
-    // Get font weight safely - handle symbol type
-    let fontWeight = 400;
-    const rawFontWeight = textNode.fontWeight;
-    
-    if (typeof rawFontWeight === 'number') {
-      fontWeight = rawFontWeight;
-    } else if (fontName && typeof fontName === 'object' && 'style' in fontName) {
-      const style = fontName.style.toLowerCase();
-      if (style.includes('black') || style.includes('heavy')) fontWeight = 900;
-      else if (style.includes('bold')) fontWeight = 700;
-      else if (style.includes('semibold')) fontWeight = 600;
-      else if (style.includes('medium')) fontWeight = 500;
-      else if (style.includes('light')) fontWeight = 300;
-      else if (style.includes('thin')) fontWeight = 100;
-    }
-    
-    const isLargeText = fontSize >= 18 || (fontSize >= 14 && fontWeight >= 700);
-
-    const aaRequired = isLargeText ? 3.0 : 4.5;
-    const aaaRequired = isLargeText ? 4.5 : 7.0;
-
-    const bounds = textNode.absoluteBoundingBox;
-
-    if (ratio < aaRequired) {
-      const suggestedColor = calculateBetterColor(textColor, bgColor, aaRequired);
-      currentIssues.push({
-        elementId: textNode.id,
-        elementName: textNode.name,
-        issueType: 'Color Contrast',
-        severity: 'fail',
-        wcagLevel: 'AA',
-        currentValue: `${ratio.toFixed(2)}:1`,
-        requiredValue: `${aaRequired}:1`,
-        suggestion: `Change text color to ${rgbToHex(suggestedColor)} to meet AA standards`,
-        suggestedFix: { type: 'textColor', value: suggestedColor },
-        bounds: bounds ? { x: bounds.x, y: bounds.y, width: bounds.width, height: bounds.height } : undefined
-      });
-    } else if (ratio < aaaRequired) {
-      const suggestedColor = calculateBetterColor(textColor, bgColor, aaaRequired);
-      currentIssues.push({
-        elementId: textNode.id,
-        elementName: textNode.name,
-        issueType: 'Color Contrast',
-        severity: 'warning',
-        wcagLevel: 'AAA',
-        currentValue: `${ratio.toFixed(2)}:1`,
-        requiredValue: `${aaaRequired}:1`,
-        suggestion: `Change text color to ${rgbToHex(suggestedColor)} for AAA compliance`,
-        suggestedFix: { type: 'textColor', value: suggestedColor },
-        bounds: bounds ? { x: bounds.x, y: bounds.y, width: bounds.width, height: bounds.height } : undefined
-      });
+  }
+
+  if (msg.type === 'analyze-batch') {
+    await runBatchAnalysis(msg.scope, msg.checks, msg.forceReanalyze || false, msg.runId);
+  }
+
+  if (msg.type === 'image-decoded') {
+    const resolve = pendingImageDecodes.get(msg.requestId);
+    if (resolve) {
+      pendingImageDecodes.delete(msg.requestId);
+      resolve(msg.pixels || null);
     }
-  } catch (error) {
-    console.error('Error checking text contrast:', textNode.name, error);
   }
+
+  if (msg.type === 'apply-fix') {
+    await applyFix(msg.fingerprint, msg.fix);
+  }
+
+  if (msg.type === 'set-live-mode') {
+    setLiveMode(msg.enabled, msg.checks, msg.showOverlay);
+  }
+
+  if (msg.type === 'waive-issue') {
+    await waiveIssue(msg.fingerprint, msg.reason, msg.author);
+  }
+
+  if (msg.type === 'remove-waiver') {
+    await removeWaiver(msg.fingerprint);
+  }
+
+  if (msg.type === 'preview-fixes') {
+    figma.ui.postMessage({ type: 'fix-preview', items: buildFixPreview(msg.filter) });
+  }
+
+  if (msg.type === 'apply-fixes') {
+    await applyFixes(msg.fingerprints);
+  }
+
+  if (msg.type === 'get-fix-journal') {
+    postFixJournal();
+  }
+
+  if (msg.type === 'revert-fix') {
+    await revertFixes([msg.entryId]);
+  }
+
+  if (msg.type === 'revert-session') {
+    const sessionEntries = loadFixJournal().filter(entry => entry.sessionId === journalSessionId);
+    await revertFixes(sessionEntries.map(entry => entry.id));
+  }
+
+  if (msg.type === 'toggle-overlay') {
+    if (overlayFrame) {
+      overlayFrame.visible = msg.visible;
+    }
+  }
+
+  if (msg.type === 'clear-overlays') {
+    clearOverlays();
+  }
+
+  if (msg.type === 'jump-to-element') {
+    const node = figma.getNodeById(msg.elementId);
+    if (node) {
+      figma.currentPage.selection = [node as SceneNode];
+      figma.viewport.scrollAndZoomIntoView([node as SceneNode]);
+    }
+  }
+
+  if (msg.type === 'clear-cache') {
+    if (selectedFrame) {
+      clearFrameCache(selectedFrame);
+      figma.notify('✓ Cache cleared for this frame');
+      figma.ui.postMessage({ type: 'cache-cleared' });
+    }
+  }
+
+  if (msg.type === 'clear-all-caches') {
+    clearAllCaches();
+  }
+
+  if (msg.type === 'get-cache-info') {
+    if (selectedFrame) {
+      const cached = readCachedAnalysis(selectedFrame);
+      figma.ui.postMessage({
+        type: 'cache-info',
+        hasCached: !!cached,
+        age: cached ? getCacheAge(cached.timestamp) : null
+      });
+    }
+  }
+
+  if (msg.type === 'get-frame-history') {
+    if (selectedFrame) {
+      try {
+        const scope: HistoryScope = msg.scope === 'team' ? 'team' : 'mine';
+        const history = await loadFrameHistory(selectedFrame.id, scope);
+        figma.ui.postMessage({
+          type: 'frame-history',
+          frameId: selectedFrame.id,
+          scope: scope,
+          history: history,
+          diff: history.length > 1
+            ? diffAnalyses(history[1], history[0])
+            : null
+        });
+      } catch (error) {
+        console.error('Failed to load frame history:', error);
+      }
+    }
+  }
+
+  if (msg.type === 'diff-analyses') {
+    await postAnalysisDiff(msg.frameId, msg.fromId, msg.toId, msg.scope === 'team' ? 'team' : 'mine');
+  }
+
+  if (msg.type === 'get-file-overview') {
+    try {
+      const entries = await historyStore.getFileOverview();
+      figma.ui.postMessage({
+        type: 'file-overview',
+        fileName: figma.root.name,
+        entries: entries
+      });
+    } catch (error) {
+      console.error('Failed to load file overview:', error);
+    }
+  }
+
+  if (msg.type === 'get-all-analyses') {
+    try {
+      const analyses = await historyStore.getAllAnalyses(msg.limit || 50);
+      figma.ui.postMessage({
+        type: 'all-analyses',
+        analyses: analyses
+      });
+    } catch (error) {
+      console.error('Failed to load analyses:', error);
+    }
+  }
+
+  if (msg.type === 'get-settings') {
+    postSettings();
+  }
+
+  if (msg.type === 'save-settings') {
+    try {
+      const config = normalizeSupabaseConfig(msg.config);
+      if (isSupabaseConfigured(config)) {
+        await figma.clientStorage.setAsync(BACKEND_CONFIG_KEY, config);
+        backendConfig = config;
+      } else {
+        await figma.clientStorage.deleteAsync(BACKEND_CONFIG_KEY);
+        backendConfig = null;
+      }
+
+      await connectHistoryBackend();
+      postSettings();
+      figma.notify(supabaseClient ? '✓ History backend saved and connected' : '✓ Settings saved. History is kept on this machine.');
+    } catch (error) {
+      console.error('Failed to save settings:', error);
+      figma.ui.postMessage({ type: 'error', message: 'Failed to save settings' });
+    }
+  }
+
+  if (msg.type === 'test-connection') {
+    try {
+      const result = await testSupabaseConnection(msg.config);
+      figma.ui.postMessage({ type: 'connection-test', ...result });
+    } catch (error) {
+      figma.ui.postMessage({
+        type: 'connection-test',
+        ok: false,
+        message: 'Connection test failed: ' + String(error),
+        schemaVersion: null,
+        requiredSchemaVersion: HISTORY_SCHEMA_VERSION
+      });
+    }
+  }
+
+  if (msg.type === 'set-remote-history') {
+    figma.root.setPluginData(FILE_HISTORY_KEY, msg.enabled ? '' : 'off');
+    await connectHistoryBackend();
+    postSettings();
+  }
+
+  if (msg.type === 'send-sign-in-code') {
+    if (supabaseClient) {
+      try {
+        await supabaseClient.sendSignInCode(msg.email, getIdentityMetadata());
+        figma.ui.postMessage({ type: 'sign-in-code-sent', email: msg.email });
+      } catch (error) {
+        console.error('Failed to send sign-in code:', error);
+        figma.ui.postMessage({ type: 'auth-error', message: 'Could not send a sign-in code to ' + msg.email });
+      }
+    }
+  }
+
+  if (msg.type === 'verify-sign-in-code') {
+    if (supabaseClient) {
+      try {
+        await endHistorySession();
+        await supabaseClient.verifySignInCode(msg.email, msg.code);
+        await startHistorySession();
+        figma.notify('✓ Signed in as ' + msg.email + '. History now follows you across machines.');
+      } catch (error) {
+        console.error('Failed to verify sign-in code:', error);
+        figma.ui.postMessage({ type: 'auth-error', message: 'That code is invalid or has expired' });
+        await startHistorySession().catch(restartError => console.error('Failed to restart history session:', restartError));
+      }
+    }
+  }
+
+  if (msg.type === 'sign-out') {
+    if (supabaseClient) {
+      try {
+        await endHistorySession();
+        await supabaseClient.signOut();
+        await startHistorySession();
+      } catch (error) {
+        console.error('Failed to sign out:', error);
+        postAuthState();
+      }
+    }
+  }
+
+  if (msg.type === 'load-analysis-by-id') {
+    try {
+      const node = figma.getNodeById(msg.frameId);
+      if (node && node.type === 'FRAME') {
+        const page = getPageOf(node);
+        if (page && page !== figma.currentPage) {
+          await figma.setCurrentPageAsync(page);
+        }
+        figma.currentPage.selection = [node];
+        figma.viewport.scrollAndZoomIntoView([node]);
+      }
+    } catch (error) {
+      console.error('Failed to load frame:', error);
+    }
+  }
+};
+
+figma.on('close', async () => {
+  if (currentSessionId) {
+    const framesAnalyzed = sessionFrameCount;
+    await endHistorySession();
+    console.log('✓ Session ended. Analyzed', framesAnalyzed, 'frames.');
+  }
+});
+
+function collectFrames(nodes: readonly SceneNode[]): FrameNode[] {
+  const frames: FrameNode[] = [];
+
+  for (const node of nodes) {
+    if (node.type === 'FRAME') {
+      frames.push(node);
+    } else if (node.type === 'SECTION') {
+      frames.push(...collectFrames(node.children));
+    }
+  }
+
+  return frames;
+}
+
+async function getFramesForScope(scope: BatchScope): Promise<FrameNode[]> {
+  if (scope === 'file') {
+    await figma.loadAllPagesAsync();
+    const frames: FrameNode[] = [];
+    for (const page of figma.root.children) {
+      frames.push(...collectFrames(page.children));
+    }
+    return frames;
+  }
+
+  if (scope === 'page') {
+    return collectFrames(figma.currentPage.children);
+  }
+
+  return collectFrames(figma.currentPage.selection);
+}
+
+function getPageOf(node: BaseNode): PageNode | null {
+  let current: BaseNode | null = node;
+  while (current && current.type !== 'PAGE') {
+    current = current.parent;
+  }
+  return current as PageNode | null;
+}
+
+const LIVE_DEBOUNCE_MS = 500;
+
+let liveMode = false;
+let liveChecks: RuleSelection | null = null;
+let liveShowOverlay = false;
+let liveTimer: ReturnType<typeof setTimeout> | null = null;
+let liveRun: AnalysisRun | null = null;
+let liveRerunPending = false;
+
+function getLiveFrames(): FrameNode[] {
+  if (selectedFrame) return [selectedFrame];
+  return selectedFrames;
+}
+
+function isWithinFrames(node: BaseNode, frames: FrameNode[]): boolean {
+  let current: BaseNode | null = node;
+  while (current && current.type !== 'PAGE') {
+    if (frames.some(frame => frame.id === current!.id)) return true;
+    current = current.parent;
+  }
+  return false;
+}
+
+// Our own cache and waiver writes show up as pluginData changes, and the overlay lives beside the
+// frame rather than inside it, so neither retriggers a live run
+function isRelevantChange(change: DocumentChange, frames: FrameNode[]): boolean {
+  if (change.type !== 'CREATE' && change.type !== 'DELETE' && change.type !== 'PROPERTY_CHANGE') return false;
+  if (change.type === 'PROPERTY_CHANGE' && change.properties.every(property => property === 'pluginData')) return false;
+
+  if (change.node.removed) {
+    return frames.some(frame => {
+      const cached = analysisCache.get(frame.id);
+      return !!cached && !!cached.nodeKeys && change.id in cached.nodeKeys;
+    });
+  }
+
+  return isWithinFrames(change.node, frames);
+}
+
+function scheduleLiveRun(): void {
+  if (liveTimer) clearTimeout(liveTimer);
+  liveTimer = setTimeout(() => {
+    liveTimer = null;
+    runLiveAudit();
+  }, LIVE_DEBOUNCE_MS);
+}
+
+async function runLiveAudit(): Promise<void> {
+  if (!liveMode || !liveChecks) return;
+
+  // A manual run owns the results until it finishes; finishRun picks the live run back up
+  if (liveRun || activeRun) {
+    liveRerunPending = true;
+    return;
+  }
+
+  const run: AnalysisRun = { id: 0, cancelled: false, live: true };
+  liveRun = run;
+  try {
+    let failCount = 0;
+    let warningCount = 0;
+
+    for (const frame of getLiveFrames()) {
+      const { results, partial, contentHash } = await analyzeWithCache(frame, liveChecks, false, run);
+      if (partial || run.cancelled) {
+        liveRerunPending = true;
+        return;
+      }
+      await checkFrameForChanges(frame, contentHash);
+      applyWaivers(results);
+
+      const counts = getIssueCounts(results);
+      failCount += counts.failCount;
+      warningCount += counts.warningCount;
+
+      if (frame === selectedFrame) {
+        currentIssues = results;
+        postAnalysisResults(currentIssues, { live: true });
+
+        if (liveShowOverlay && overlayFrame) {
+          await createOverlayFrame(frame, currentIssues.filter(issue => !issue.waiver));
+        }
+      }
+    }
+
+    figma.ui.postMessage({ type: 'live-status', enabled: true, failCount, warningCount });
+  } catch (error) {
+    console.error('Live audit failed:', error);
+  } finally {
+    liveRun = null;
+    resumePendingLiveRun();
+  }
+}
+
+function resumePendingLiveRun(): void {
+  if (liveRerunPending && !liveRun && !activeRun) {
+    liveRerunPending = false;
+    scheduleLiveRun();
+  }
+}
+
+function setLiveMode(enabled: boolean, checks: RuleSelection, showOverlay: boolean): void {
+  liveMode = enabled;
+  liveChecks = checks;
+  liveShowOverlay = showOverlay;
+
+  if (enabled) {
+    runLiveAudit();
+  } else {
+    if (liveTimer) clearTimeout(liveTimer);
+    liveTimer = null;
+    figma.ui.postMessage({ type: 'live-status', enabled: false });
+  }
+}
+
+figma.on('documentchange', (event) => {
+  if (!liveMode) return;
+
+  const frames = getLiveFrames();
+  if (frames.length === 0) return;
+
+  if (event.documentChanges.some(change => isRelevantChange(change, frames))) {
+    scheduleLiveRun();
+  }
+});
+
+async function runBatchAnalysis(scope: BatchScope, checks: RuleSelection, forceReanalyze: boolean, runId: number) {
+  const run = startRun(runId);
+  try {
+    clearOverlays();
+
+    const frames = await getFramesForScope(scope);
+    if (frames.length === 0) {
+      figma.ui.postMessage({ type: 'error', message: 'No frames found to analyze', runId: run.id });
+      return;
+    }
+
+    console.log('Batch analysis started:', frames.length, 'frames');
+    const summaries: BatchFrameSummary[] = [];
+
+    for (let i = 0; i < frames.length; i++) {
+      const frame = frames[i];
+
+      figma.ui.postMessage({
+        type: 'batch-progress',
+        progress: Math.round((i / frames.length) * 100),
+        current: i + 1,
+        total: frames.length,
+        frameName: frame.name,
+        runId: run.id
+      });
+
+      const { results, cached, partial, contentHash } = await analyzeWithCache(frame, checks, forceReanalyze, run);
+      if (run !== activeRun) return;
+      // The interrupted frame only has some of its issues, so its summary would undercount
+      if (partial) break;
+      applyWaivers(results);
+
+      if (!cached) {
+        await savePersistentAnalysis(frame, results, contentHash, getRuleConfigs(checks));
+      }
+
+      const page = getPageOf(frame);
+      const counts = getIssueCounts(results);
+      summaries.push({
+        frameId: frame.id,
+        frameName: frame.name,
+        pageName: page ? page.name : '',
+        totalIssues: counts.totalIssues,
+        failCount: counts.failCount,
+        warningCount: counts.warningCount,
+        waivedCount: counts.waivedCount,
+        fromCache: !!cached
+      });
+    }
+
+    // Per-issue fixes need a single frame selected, so the batch leaves no active issue list
+    currentIssues = [];
+    summaries.sort((a, b) => b.failCount - a.failCount || b.warningCount - a.warningCount);
+
+    const totalFails = summaries.reduce((sum, s) => sum + s.failCount, 0);
+    const totalWarnings = summaries.reduce((sum, s) => sum + s.warningCount, 0);
+
+    figma.ui.postMessage({
+      type: 'batch-complete',
+      frames: summaries,
+      frameCount: summaries.length,
+      failingFrames: summaries.filter(s => s.failCount > 0).length,
+      totalFails: totalFails,
+      totalWarnings: totalWarnings,
+      cachedFrames: summaries.filter(s => s.fromCache).length,
+      partial: run.cancelled,
+      totalFrameCount: frames.length,
+      runId: run.id
+    });
+
+    if (run.cancelled) {
+      figma.notify(`⏹ Batch cancelled. ${summaries.length} of ${frames.length} frames analyzed, ${totalFails} failures.`);
+    } else {
+      figma.notify(`✓ Batch complete! ${summaries.length} frames, ${totalFails} failures.`);
+    }
+  } catch (error) {
+    console.error('Batch analysis error:', error);
+    figma.ui.postMessage({ type: 'error', message: 'Batch analysis failed: ' + error, runId: run.id });
+    figma.notify('❌ Batch analysis failed. Check console for details.');
+  } finally {
+    finishRun(run);
+  }
+}
+
+// Starting a run supersedes any run still in flight: it stops at its next yield and posts nothing
+function startRun(runId: number): AnalysisRun {
+  if (activeRun) {
+    activeRun.cancelled = true;
+  }
+  if (liveRun) {
+    liveRun.cancelled = true;
+  }
+  activeRun = { id: runId, cancelled: false };
+  releasePause();
+  return activeRun;
+}
+
+function finishRun(run: AnalysisRun): void {
+  if (activeRun === run) {
+    activeRun = null;
+    resumePendingLiveRun();
+  }
+}
+
+function cancelRun(runId: number): void {
+  if (!activeRun || activeRun.id !== runId) return;
+  activeRun.cancelled = true;
+  releasePause();
+}
+
+function releasePause(): void {
+  isPaused = false;
+  if (resumeRun) {
+    resumeRun();
+    resumeRun = null;
+  }
+}
+
+function isRunStopped(run?: AnalysisRun): boolean {
+  return !!run && (run.cancelled || (!run.live && run !== activeRun));
+}
+
+// Only manual runs answer to the progress controls
+function isRunPaused(run?: AnalysisRun): boolean {
+  return !!run && !run.live && isPaused;
+}
+
+function getRunMessageId(run?: AnalysisRun): number | undefined {
+  return run && !run.live ? run.id : undefined;
+}
+
+// Lets Figma process input and repaint, then waits out a pause without polling
+async function yieldToFigma(run?: AnalysisRun): Promise<void> {
+  await new Promise(resolve => setTimeout(resolve, 0));
+  if (isRunPaused(run)) {
+    await new Promise<void>(resolve => {
+      resumeRun = resolve;
+    });
+  }
+}
+
+// Appends to issues; returns false when the run was cancelled or superseded before every node was visited
+async function analyzeFrame(
+  snapshot: FrameSnapshot,
+  checks: RuleSelection,
+  issues: AccessibilityIssue[],
+  onlyNodeIds?: Set<string>,
+  run?: AnalysisRun
+): Promise<boolean> {
+  let processedElements = 0;
+  let recheckedElements = 0;
+  tokenCache.clear();
+  paintStyleCache = null;
+
+  const rules = getSelectedRules(checks);
+  const contexts = new Map<string, RuleContext>();
+  for (const rule of rules) {
+    const options = resolveRuleOptions(rule, checks[rule.id]);
+    contexts.set(rule.id, {
+      snapshot,
+      options,
+      prepared: rule.prepare ? await rule.prepare(snapshot, options) : null,
+      issues
+    });
+  }
+
+  const postProgress = () => {
+    analysisProgress = Math.round((processedElements / totalElements) * 100);
+    figma.ui.postMessage({
+      type: 'analysis-progress',
+      progress: analysisProgress,
+      current: processedElements,
+      total: totalElements,
+      rechecked: onlyNodeIds ? recheckedElements : undefined,
+      runId: getRunMessageId(run)
+    });
+  };
+
+  async function checkNodeRules(node: NodeSnapshot) {
+    for (const rule of rules) {
+      if (rule.nodeTypes && !rule.nodeTypes.includes(node.type)) continue;
+
+      const context = contexts.get(rule.id)!;
+      if (rule.appliesTo && !rule.appliesTo(node, context)) continue;
+
+      await rule.check(node, context);
+    }
+  }
+
+  // The snapshot is already in depth-first order, so the walk is a loop that can pause anywhere
+  let sliceStart = Date.now();
+  let completed = true;
+
+  for (const node of snapshot.frameNodes) {
+    if (isRunPaused(run) || Date.now() - sliceStart > ANALYSIS_SLICE_MS) {
+      postProgress();
+      await yieldToFigma(run);
+      sliceStart = Date.now();
+    }
+    if (isRunStopped(run)) {
+      completed = false;
+      break;
+    }
+
+    processedElements++;
+
+    const shouldCheck = !onlyNodeIds || onlyNodeIds.has(node.id);
+    if (shouldCheck) {
+      if (onlyNodeIds) {
+        recheckedElements++;
+      }
+      await checkNodeRules(node);
+    }
+  }
+
+  postProgress();
+
+  for (const issue of issues) {
+    issue.fingerprint = getIssueFingerprint(issue);
+  }
+
+  return completed;
+}
+
+async function loadTextFonts(textNode: NodeSnapshot): Promise<boolean> {
+  const fontNames = getTextSegments(textNode, ['fontName']).map(segment => segment.fontName);
+
+  for (const fontName of fontNames) {
+    try {
+      await figma.loadFontAsync(fontName);
+    } catch (fontError) {
+      console.warn('Font loading failed for:', fontName, '- Using fallback');
+      // Try to load Inter Regular as fallback
+      try {
+        await figma.loadFontAsync({ family: 'Inter', style: 'Regular' });
+      } catch (fallbackError) {
+        console.error('Fallback font also failed, skipping node');
+        figma.ui.postMessage({
+          type: 'font-error',
+          message: `Could not load font: ${JSON.stringify(fontName)}`,
+          node: textNode.name
+        });
+        return false;
+      }
+    }
+  }
+
+  return true;
+}
+
+// The snapshot keeps Figma's finest runs; merging neighbours that agree on `fields` gives the
+// same segments getStyledTextSegments(fields) would have returned
+function getTextSegments<K extends typeof FINGERPRINT_TEXT_FIELDS[number]>(
+  textNode: NodeSnapshot,
+  fields: K[]
+): Pick<TextSegmentSnapshot, K | 'characters' | 'start' | 'end'>[] {
+  const merged: Pick<TextSegmentSnapshot, K | 'characters' | 'start' | 'end'>[] = [];
+  if (!textNode.text) return merged;
+
+  for (const segment of textNode.text.segments) {
+    const last = merged[merged.length - 1];
+    if (last && fields.every(field => serialiseFingerprint(last[field]) === serialiseFingerprint(segment[field]))) {
+      last.end = segment.end;
+      last.characters += segment.characters;
+      continue;
+    }
+
+    const copy = { characters: segment.characters, start: segment.start, end: segment.end } as Pick<TextSegmentSnapshot, K | 'characters' | 'start' | 'end'>;
+    fields.forEach(field => copy[field] = segment[field]);
+    merged.push(copy);
+  }
+
+  return merged;
+}
+
+// Segments that cover the whole node are reported without a range so fixes apply to the node
+function getSegmentRange(textNode: NodeSnapshot, segment: { start: number; end: number; characters: string }): TextRange | undefined {
+  if (segment.start === 0 && textNode.text && segment.end === textNode.text.characters.length) {
+    return undefined;
+  }
+  return { start: segment.start, end: segment.end, text: segment.characters };
+}
+
+function describeRange(range: TextRange | undefined): string {
+  if (!range) return '';
+  const text = range.text.length > 24 ? range.text.slice(0, 24) + '…' : range.text;
+  return ` of "${text.trim()}"`;
+}
+
+async function checkTextContrast(
+  snapshot: FrameSnapshot,
+  textNode: NodeSnapshot,
+  options: RuleOptions,
+  palette: RGB[],
+  issues: AccessibilityIssue[]
+) {
+  try {
+    if (!(await loadTextFonts(textNode))) return;
+
+    const algorithm: ContrastAlgorithm = options.algorithm === 'apca' ? 'apca' : 'wcag2';
+    const background = resolveBackground(snapshot, textNode);
+    const nodeOpacity = textNode.effectiveOpacity;
+    const pixels = options.rasterSampling && background.unresolvedPaint ? await sampleBackgroundPixels(snapshot, textNode) : null;
+    const backgroundKey = getBackgroundKey(background, pixels);
+
+    const bounds = textNode.bounds;
+    const segments = getTextSegments(textNode, ['fills', 'fillStyleId', 'fontSize', 'fontWeight']);
+
+    for (const segment of segments) {
+      const textFill = getSolidFill(segment.fills);
+      if (!textFill) continue;
+
+      const textColor = textFill.color;
+      const textAlpha = (textFill.opacity !== undefined ? textFill.opacity : 1) * nodeOpacity;
+      const range = pixels && pixels.length > 0
+        ? getSampledContrastRange(textColor, textAlpha, pixels, algorithm)
+        : getContrastRange(textColor, textAlpha, background, algorithm);
+      const ratio = range.worst;
+      const bgColor = range.worstBackground;
+      const contrastRange = background.ambiguous ? { worst: range.worst, best: range.best } : undefined;
+      const required = getTextContrastRequirements(segment.fontSize, segment.fontWeight, algorithm);
+
+      const aaRequired = required.aa;
+      const aaaRequired = required.aaa;
+      const textRange = getSegmentRange(textNode, segment);
+
+      if (ratio < aaRequired) {
+        const colorFix = await buildTextColorFix(textNode.node, textFill, segment.fillStyleId, background, bgColor, aaRequired, algorithm, palette, nodeOpacity);
+        issues.push({
+          elementId: textNode.id,
+          elementName: textNode.name,
+          issueType: 'Color Contrast',
+          severity: 'fail',
+          wcagLevel: 'AA',
+          currentValue: formatSampledContrast(range, aaRequired, algorithm),
+          requiredValue: formatContrastRequirement(aaRequired, algorithm),
+          suggestion: `Change text color${describeRange(textRange)} ${colorFix.description} to meet AA standards`,
+          suggestedFix: colorFix.fix,
+          bounds: bounds ? { x: bounds.x, y: bounds.y, width: bounds.width, height: bounds.height } : undefined,
+          textRange,
+          contrastRange,
+          sampledContrast: getSampledContrast(range, aaRequired),
+          measuredValue: ratio,
+          contrastAlgorithm: algorithm,
+          backgroundKey,
+          alternatives: colorFix.alternatives
+        });
+      } else if (ratio < aaaRequired) {
+        const colorFix = await buildTextColorFix(textNode.node, textFill, segment.fillStyleId, background, bgColor, aaaRequired, algorithm, palette, nodeOpacity);
+        issues.push({
+          elementId: textNode.id,
+          elementName: textNode.name,
+          issueType: 'Color Contrast',
+          severity: 'warning',
+          wcagLevel: 'AAA',
+          currentValue: formatSampledContrast(range, aaaRequired, algorithm),
+          requiredValue: formatContrastRequirement(aaaRequired, algorithm),
+          suggestion: `Change text color${describeRange(textRange)} ${colorFix.description} for AAA compliance`,
+          suggestedFix: colorFix.fix,
+          bounds: bounds ? { x: bounds.x, y: bounds.y, width: bounds.width, height: bounds.height } : undefined,
+          textRange,
+          contrastRange,
+          sampledContrast: getSampledContrast(range, aaaRequired),
+          measuredValue: ratio,
+          contrastAlgorithm: algorithm,
+          backgroundKey,
+          alternatives: colorFix.alternatives
+        });
+      }
+    }
+  } catch (error) {
+    console.error('Error checking text contrast:', textNode.name, error);
+  }
+}
+
+function getBackgroundKey(background: ResolvedBackground, pixels: RGB[] | null): string {
+  const colors = pixels && pixels.length > 0 ? pixels : background.candidates;
+  return sha256(colors.map(rgbToHex).join(',')).slice(0, 16);
+}
+
+function checkTextSpacing(textNode: NodeSnapshot, issues: AccessibilityIssue[]) {
+  try {
+    const bounds = textNode.bounds;
+    const segments = getTextSegments(textNode, ['fontSize', 'letterSpacing']);
+
+    for (const segment of segments) {
+      const fontSize = segment.fontSize;
+      const letterSpacing = segment.letterSpacing;
+
+      let currentSpacing = 0;
+      if (letterSpacing.unit === 'PIXELS') {
+        currentSpacing = letterSpacing.value;
+      } else if (letterSpacing.unit === 'PERCENT') {
+        currentSpacing = (letterSpacing.value / 100) * fontSize;
+      }
+
+      const requiredSpacing = fontSize * RULE_THRESHOLDS.letterSpacingEm;
+      const textRange = getSegmentRange(textNode, segment);
+
+      if (currentSpacing < requiredSpacing) {
+        issues.push({
+          elementId: textNode.id,
+          elementName: textNode.name,
+          issueType: 'Text Spacing',
+          severity: 'fail',
+          wcagLevel: 'AA',
+          currentValue: `${currentSpacing.toFixed(1)}px`,
+          requiredValue: `${requiredSpacing.toFixed(1)}px (${RULE_THRESHOLDS.letterSpacingEm}em)`,
+          suggestion: `Increase letter spacing${describeRange(textRange)} to ${requiredSpacing.toFixed(1)}px`,
+          suggestedFix: { type: 'letterSpacing', value: requiredSpacing },
+          measuredValue: currentSpacing,
+          bounds: bounds ? { x: bounds.x, y: bounds.y, width: bounds.width, height: bounds.height } : undefined,
+          textRange
+        });
+      }
+    }
+  } catch (error) {
+    console.error('Error checking text spacing:', textNode.name, error);
+  }
+}
+
+function checkLineHeight(textNode: NodeSnapshot, issues: AccessibilityIssue[]) {
+  try {
+    const bounds = textNode.bounds;
+    const segments = getTextSegments(textNode, ['fontSize', 'lineHeight']);
+
+    for (const segment of segments) {
+      const fontSize = segment.fontSize;
+      const lineHeight = segment.lineHeight;
+
+      let currentLineHeight = 0;
+      if (lineHeight.unit === 'PIXELS') {
+        currentLineHeight = lineHeight.value;
+      } else if (lineHeight.unit === 'PERCENT') {
+        currentLineHeight = (lineHeight.value / 100) * fontSize;
+      } else {
+        currentLineHeight = fontSize * RULE_THRESHOLDS.lineHeightRatio;
+      }
+
+      const requiredLineHeight = fontSize * RULE_THRESHOLDS.lineHeightRatio;
+      const textRange = getSegmentRange(textNode, segment);
+
+      if (currentLineHeight < requiredLineHeight) {
+        issues.push({
+          elementId: textNode.id,
+          elementName: textNode.name,
+          issueType: 'Line Height',
+          severity: 'fail',
+          wcagLevel: 'AA',
+          currentValue: `${currentLineHeight.toFixed(1)}px`,
+          requiredValue: `${requiredLineHeight.toFixed(1)}px (${RULE_THRESHOLDS.lineHeightRatio}x)`,
+          suggestion: `Increase line height${describeRange(textRange)} to ${requiredLineHeight.toFixed(1)}px`,
+          suggestedFix: { type: 'lineHeight', value: requiredLineHeight },
+          measuredValue: currentLineHeight,
+          bounds: bounds ? { x: bounds.x, y: bounds.y, width: bounds.width, height: bounds.height } : undefined,
+          textRange
+        });
+      }
+    }
+  } catch (error) {
+    console.error('Error checking line height:', textNode.name, error);
+  }
+}
+
+function checkParagraphSpacing(textNode: NodeSnapshot, issues: AccessibilityIssue[]) {
+  try {
+    // Paragraph spacing is a node-level property, so measure against the largest run
+    const segments = getTextSegments(textNode, ['fontSize']);
+    if (!textNode.text || segments.length === 0) return;
+
+    const fontSize = Math.max(...segments.map(segment => segment.fontSize));
+    const paragraphSpacing = textNode.text.paragraphSpacing;
+    const requiredSpacing = fontSize * RULE_THRESHOLDS.paragraphSpacingRatio;
+    const bounds = textNode.bounds;
+
+    if (paragraphSpacing < requiredSpacing) {
+      issues.push({
+        elementId: textNode.id,
+        elementName: textNode.name,
+        issueType: 'Paragraph Spacing',
+        severity: 'fail',
+        wcagLevel: 'AA',
+        currentValue: `${paragraphSpacing.toFixed(1)}px`,
+        requiredValue: `${requiredSpacing.toFixed(1)}px (${RULE_THRESHOLDS.paragraphSpacingRatio.toFixed(1)}x)`,
+        suggestion: `Increase paragraph spacing to ${requiredSpacing.toFixed(1)}px`,
+        suggestedFix: { type: 'paragraphSpacing', value: requiredSpacing },
+        measuredValue: paragraphSpacing,
+        bounds: bounds ? { x: bounds.x, y: bounds.y, width: bounds.width, height: bounds.height } : undefined
+      });
+    }
+  } catch (error) {
+    console.error('Error checking paragraph spacing:', textNode.name, error);
+  }
+}
+
+const NON_TEXT_SHAPE_TYPES = ['RECTANGLE', 'ELLIPSE', 'VECTOR', 'BOOLEAN_OPERATION', 'POLYGON', 'STAR', 'LINE'];
+const NON_TEXT_CONTAINER_TYPES = ['FRAME', 'INSTANCE', 'COMPONENT'];
+
+// Shapes and icons are checked on fills and strokes; containers only on their borders,
+// since a container fill is the background its children are measured against
+function isNonTextCandidate(node: NodeSnapshot): boolean {
+  if (!node.visible) return false;
+  if (NON_TEXT_SHAPE_TYPES.includes(node.type)) return true;
+  return NON_TEXT_CONTAINER_TYPES.includes(node.type) && hasVisibleStroke(node);
+}
+
+function hasVisibleStroke(node: NodeSnapshot): boolean {
+  return !!node.strokes && getSolidFill(node.strokes) !== null &&
+    typeof node.strokeWeight === 'number' && node.strokeWeight > 0;
+}
+
+async function checkNonTextContrast(snapshot: FrameSnapshot, node: NodeSnapshot, issues: AccessibilityIssue[]) {
+  try {
+    const background = resolveBackground(snapshot, node);
+    const opacity = node.effectiveOpacity;
+    const bounds = node.bounds;
+    const paintSets: { kind: 'fill' | 'stroke'; paints: ReadonlyArray<Paint>; styleId: string }[] = [];
+
+    if (NON_TEXT_SHAPE_TYPES.includes(node.type) && Array.isArray(node.fills)) {
+      paintSets.push({ kind: 'fill', paints: node.fills, styleId: typeof node.fillStyleId === 'string' ? node.fillStyleId : '' });
+    }
+    if (hasVisibleStroke(node) && node.strokes) {
+      paintSets.push({ kind: 'stroke', paints: node.strokes, styleId: node.strokeStyleId || '' });
+    }
+
+    for (const { kind, paints, styleId } of paintSets) {
+      const paint = getSolidFill(paints);
+      if (!paint) continue;
+
+      const alpha = (paint.opacity !== undefined ? paint.opacity : 1) * opacity;
+      const range = getContrastRange(paint.color, alpha, background);
+      if (range.worst >= RULE_THRESHOLDS.nonTextContrast) continue;
+
+      const suggestedColor = findClosestPassingColor(
+        paint.color,
+        candidate => getContrastScore(blendColor(candidate, range.worstBackground, alpha), range.worstBackground),
+        RULE_THRESHOLDS.nonTextContrast
+      );
+      const paintIndex = paints.indexOf(paint);
+      const colorFix = await buildPaintColorFix(node.node, kind, paint, paintIndex, styleId, suggestedColor, range.worstBackground, opacity);
+
+      issues.push({
+        elementId: node.id,
+        elementName: node.name,
+        issueType: 'Non-text Contrast',
+        severity: 'fail',
+        wcagLevel: 'AA',
+        currentValue: `${formatContrastRange(range)} (${kind})`,
+        requiredValue: `${RULE_THRESHOLDS.nonTextContrast.toFixed(1)}:1`,
+        suggestion: `Change ${kind} color ${colorFix.description} to reach 3:1 against the background`,
+        suggestedFix: colorFix.fix,
+        bounds: bounds ? { x: bounds.x, y: bounds.y, width: bounds.width, height: bounds.height } : undefined,
+        contrastRange: background.ambiguous ? { worst: range.worst, best: range.best } : undefined,
+        measuredValue: range.worst,
+        contrastAlgorithm: 'wcag2',
+        alternatives: colorFix.alternatives.length > 0 ? colorFix.alternatives : undefined
+      });
+    }
+  } catch (error) {
+    console.error('Error checking non-text contrast:', node.name, error);
+  }
+}
+
+// Same token preference as text fixes: a bound fill or stroke moves to a passing variable
+// or style, and the raw colour that would detach it is only offered as an alternative
+async function buildPaintColorFix(
+  node: SceneNode,
+  kind: 'fill' | 'stroke',
+  paint: SolidPaint,
+  paintIndex: number,
+  styleId: string,
+  suggestedColor: RGB,
+  bgColor: RGB,
+  nodeOpacity: number
+): Promise<{ description: string; fix: any; alternatives: FixAlternative[] }> {
+  const paintOpacity = paint.opacity !== undefined ? paint.opacity : 1;
+  const rawFix = { type: kind === 'fill' ? 'fillColor' : 'strokeColor', paintIndex, value: suggestedColor };
+  const rawDelta = getDeltaE(paint.color, suggestedColor);
+
+  const binding = await getColorBinding(paint, styleId);
+  if (binding) {
+    const fixTypes = kind === 'fill'
+      ? { variable: 'fillVariable', style: 'fillStyle' }
+      : { variable: 'strokeVariable', style: 'strokeStyle' };
+    const token = await findPassingToken(binding, node, paint.color, bgColor, RULE_THRESHOLDS.nonTextContrast, 'wcag2', paintOpacity, nodeOpacity, fixTypes);
+    if (token) {
+      return {
+        description: `to ${binding.kind} "${token.name}" (${rgbToHex(token.color)}, ΔE ${token.deltaE.toFixed(1)})`,
+        fix: { ...token.fix, paintIndex },
+        alternatives: [{
+          label: 'Raw color (detaches token)',
+          color: rgbToHex(suggestedColor),
+          deltaE: rawDelta,
+          fix: rawFix
+        }]
+      };
+    }
+  }
+
+  return {
+    description: `to ${rgbToHex(suggestedColor)} (ΔE ${rawDelta.toFixed(1)})${binding ? `, detaching ${binding.kind} "${binding.kind === 'variable' ? binding.variable.name : binding.style.name}" as no token passes` : ''}`,
+    fix: rawFix,
+    alternatives: []
+  };
+}
+
+const INTERACTIVE_NAME_PATTERN = /\b(button|btn|link|input|text ?field|checkbox|radio|switch|toggle|tab|select|dropdown|chip)\b/i;
+
+function isInteractiveNode(node: NodeSnapshot): boolean {
+  if (node.type === 'INSTANCE') return true;
+  if (INTERACTIVE_NAME_PATTERN.test(node.name)) return true;
+  if (node.reactions && node.reactions.length > 0) return true;
+  if (node.annotations) {
+    return node.annotations.some(a => INTERACTIVE_NAME_PATTERN.test(a.label || a.labelMarkdown || ''));
+  }
+  return false;
+}
+
+function collectInteractiveTargets(snapshot: FrameSnapshot): InteractiveTarget[] {
+  const targets: InteractiveTarget[] = [];
+
+  function walk(n: NodeSnapshot) {
+    if (!n.visible) return;
+
+    // Children of a target (icon inside a button) are part of the same target
+    if (isInteractiveNode(n)) {
+      if (n.bounds) {
+        targets.push({ id: n.id, bounds: n.bounds });
+      }
+      return;
+    }
+
+    n.childIds.forEach(id => walk(snapshot.nodes.get(id)!));
+  }
+
+  snapshot.frame.childIds.forEach(id => walk(snapshot.nodes.get(id)!));
+  return targets;
+}
+
+function isUndersizedTarget(bounds: Rect): boolean {
+  return bounds.width < RULE_THRESHOLDS.targetSizeAA || bounds.height < RULE_THRESHOLDS.targetSizeAA;
+}
+
+// WCAG 2.5.8 spacing exception: a 24px circle centred on the undersized target
+// must not intersect another target or the circle of another undersized target
+function hasTargetSpacing(target: InteractiveTarget, targets: InteractiveTarget[]): boolean {
+  const cx = target.bounds.x + target.bounds.width / 2;
+  const cy = target.bounds.y + target.bounds.height / 2;
+
+  for (const other of targets) {
+    if (other.id === target.id) continue;
+
+    const o = other.bounds;
+
+    if (isUndersizedTarget(o)) {
+      const ox = o.x + o.width / 2;
+      const oy = o.y + o.height / 2;
+      if (Math.hypot(cx - ox, cy - oy) < RULE_THRESHOLDS.targetSizeAA) return false;
+    }
+
+    const nearestX = Math.max(o.x, Math.min(cx, o.x + o.width));
+    const nearestY = Math.max(o.y, Math.min(cy, o.y + o.height));
+    if (Math.hypot(cx - nearestX, cy - nearestY) < RULE_THRESHOLDS.targetSizeAA / 2) return false;
+  }
+
+  return true;
+}
+
+function checkTargetSize(node: NodeSnapshot, target: InteractiveTarget, targets: InteractiveTarget[], issues: AccessibilityIssue[]) {
+  try {
+    const { x, y, width, height } = target.bounds;
+    const currentValue = `${Math.round(width)}×${Math.round(height)}px`;
+
+    if (isUndersizedTarget(target.bounds) && !hasTargetSpacing(target, targets)) {
+      issues.push({
+        elementId: node.id,
+        elementName: node.name,
+        issueType: 'Target Size',
+        severity: 'fail',
+        wcagLevel: 'AA',
+        currentValue: currentValue,
+        requiredValue: '24×24px (2.5.8)',
+        suggestion: 'Enlarge the target to at least 24×24px or give it 24px of clearance from neighbouring targets',
+        suggestedFix: { type: 'targetSize', value: { width: Math.max(node.width, RULE_THRESHOLDS.targetSizeAA), height: Math.max(node.height, RULE_THRESHOLDS.targetSizeAA) } },
+        bounds: { x, y, width, height },
+        measuredValue: Math.min(width, height)
+      });
+    } else if (width < RULE_THRESHOLDS.targetSizeAAA || height < RULE_THRESHOLDS.targetSizeAAA) {
+      issues.push({
+        elementId: node.id,
+        elementName: node.name,
+        issueType: 'Target Size',
+        severity: 'warning',
+        wcagLevel: 'AAA',
+        currentValue: currentValue,
+        requiredValue: '44×44px (2.5.5)',
+        suggestion: 'Enlarge the target to at least 44×44px for AAA compliance',
+        suggestedFix: { type: 'targetSize', value: { width: Math.max(node.width, RULE_THRESHOLDS.targetSizeAAA), height: Math.max(node.height, RULE_THRESHOLDS.targetSizeAAA) } },
+        bounds: { x, y, width, height },
+        measuredValue: Math.min(width, height)
+      });
+    }
+  } catch (error) {
+    console.error('Error checking target size:', node.name, error);
+  }
+}
+
+type RuleOptions = { [option: string]: any };
+
+// What the UI sends as `checks`: one entry per enabled rule, holding that rule's option values
+type RuleSelection = { [ruleId: string]: RuleOptions };
+
+interface RuleOption {
+  id: string;
+  label: string;
+  type: 'boolean' | 'select';
+  default: boolean | string;
+  choices?: { value: string; label: string }[];
+}
+
+interface RuleContext {
+  snapshot: FrameSnapshot;
+  options: RuleOptions;
+  // Whatever the rule's prepare step computed once for the whole frame
+  prepared: any;
+  // The run's own result list; concurrent runs never share one
+  issues: AccessibilityIssue[];
+}
+
+interface RuleFixer {
+  // What the fix writes, so it can be journaled, reverted and previewed
+  target(node: BaseNode, fix: any, issue: AccessibilityIssue): FixTarget;
+  // The new value as the fix preview shows it
+  describe(fix: any): string;
+  apply(node: SceneNode, fix: any, issue: AccessibilityIssue): Promise<void> | void;
+}
+
+interface AccessibilityRule {
+  id: string;
+  // Shown in the rule list, and the issueType of every issue the rule reports
+  title: string;
+  successCriteria: string[];
+  levels: ('AA' | 'AAA')[];
+  // null means the rule looks at every node type
+  nodeTypes: NodeType[] | null;
+  defaultSeverity: 'fail' | 'warning';
+  enabledByDefault: boolean;
+  options: RuleOption[];
+  // Everything besides the content that changes the rule's output; cached results are keyed by it
+  config(options: RuleOptions): any;
+  prepare?(snapshot: FrameSnapshot, options: RuleOptions): Promise<any> | any;
+  appliesTo?(node: NodeSnapshot, context: RuleContext): boolean;
+  check(node: NodeSnapshot, context: RuleContext): Promise<void> | void;
+  // The property an issue is about, part of its fingerprint
+  issueProperty(issue: AccessibilityIssue): string;
+  // The node properties a waiver is granted against; it expires when they change
+  waiverProperties(node: SceneNode, issue: AccessibilityIssue): any;
+  // Keyed by suggestedFix.type
+  fixers?: { [fixType: string]: RuleFixer };
+}
+
+function requireTextNode(node: SceneNode, fix: any): TextNode {
+  if (node.type !== 'TEXT') {
+    throw new Error(`Cannot apply ${fix.type} fix to ${node.type}`);
+  }
+  return node;
+}
+
+// Fix targets for the node itself, limited to the issue's text range when it has one
+function nodeTarget(property: FixProperty) {
+  return (node: BaseNode, fix: any, issue: AccessibilityIssue): FixTarget => ({
+    nodeId: node.id,
+    property,
+    range: issue.textRange ? { start: issue.textRange.start, end: issue.textRange.end } : undefined
+  });
+}
+
+// Text colour fixes keep the opacity of the paint they replace
+function getFixPaint(fix: any): SolidPaint {
+  return { type: 'SOLID', color: fix.value, opacity: fix.opacity !== undefined ? fix.opacity : 1 };
+}
+
+// Library variables are imported only now, when the fix is applied
+async function getFixVariable(fix: any): Promise<Variable> {
+  const variable = fix.variableKey
+    ? await figma.variables.importVariableByKeyAsync(fix.variableKey)
+    : await figma.variables.getVariableByIdAsync(fix.variableId);
+  if (!variable) {
+    throw new Error('Variable not found');
+  }
+  return variable;
+}
+
+function requirePaints(node: SceneNode, property: 'fills' | 'strokes', fix: any): ReadonlyArray<Paint> {
+  if (!(property in node)) {
+    throw new Error(`Cannot apply ${fix.type} fix to ${node.type}`);
+  }
+  const paints = (node as GeometryMixin)[property];
+  if (!Array.isArray(paints)) {
+    throw new Error(`Cannot apply ${fix.type} fix to mixed ${property}`);
+  }
+  return paints;
+}
+
+const describeColor = (fix: any) => rgbToHex(fix.value);
+const describeToken = (fix: any) => fix.name ? `${fix.name} (${rgbToHex(fix.value)})` : rgbToHex(fix.value);
+const describePixels = (fix: any) => `${fix.value}px`;
+
+function getMixedValue(property: any): any {
+  return property === figma.mixed ? 'mixed' : property;
+}
+
+function getTextWaiverBase(node: SceneNode): any {
+  return node.type === 'TEXT' ? { fontSize: getMixedValue(node.fontSize), fontName: getMixedValue(node.fontName) } : {};
+}
+
+function getPaintWaiverProperties(node: SceneNode): any {
+  return {
+    fills: 'fills' in node ? getMixedValue(node.fills) : null,
+    strokes: 'strokes' in node ? node.strokes : null,
+    opacity: 'opacity' in node ? node.opacity : 1
+  };
+}
+
+// Order matters: it's the order rules run on each node, and so the order issues are listed in
+const RULES: AccessibilityRule[] = [
+  {
+    id: 'color-contrast',
+    title: 'Color Contrast',
+    successCriteria: ['1.4.3', '1.4.6'],
+    levels: ['AA', 'AAA'],
+    nodeTypes: ['TEXT'],
+    defaultSeverity: 'fail',
+    enabledByDefault: true,
+    options: [
+      {
+        id: 'algorithm',
+        label: 'Contrast algorithm',
+        type: 'select',
+        default: 'wcag2',
+        choices: [
+          { value: 'wcag2', label: 'WCAG 2.x ratio' },
+          { value: 'apca', label: 'APCA (WCAG 3 draft)' }
+        ]
+      },
+      { id: 'rasterSampling', label: 'Sample text over images & gradients (slower)', type: 'boolean', default: false }
+    ],
+    config: options => ({ algorithm: options.algorithm, rasterSampling: !!options.rasterSampling }),
+    prepare: async snapshot => ({ palette: await collectPalette(snapshot) }),
+    check: (node, context) => checkTextContrast(context.snapshot, node, context.options, context.prepared.palette, context.issues),
+    issueProperty: () => 'fills',
+    waiverProperties: (node, issue) => ({
+      ...getTextWaiverBase(node),
+      fills: 'fills' in node ? getMixedValue(node.fills) : null,
+      opacity: 'opacity' in node ? node.opacity : 1,
+      background: issue.backgroundKey || null
+    }),
+    fixers: {
+      textColor: {
+        target: nodeTarget('fills'),
+        describe: describeColor,
+        apply: (node, fix, issue) => {
+          const text = requireTextNode(node, fix);
+          const paint = getFixPaint(fix);
+          if (issue.textRange) {
+            text.setRangeFills(issue.textRange.start, issue.textRange.end, [paint]);
+          } else {
+            text.fills = [paint];
+          }
+        }
+      },
+      textVariable: {
+        target: nodeTarget('fills'),
+        describe: describeToken,
+        apply: async (node, fix, issue) => {
+          const text = requireTextNode(node, fix);
+          const variable = await getFixVariable(fix);
+          const paint = figma.variables.setBoundVariableForPaint(getFixPaint(fix), 'color', variable);
+          if (issue.textRange) {
+            text.setRangeFills(issue.textRange.start, issue.textRange.end, [paint]);
+          } else {
+            text.fills = [paint];
+          }
+        }
+      },
+      textStyle: {
+        target: nodeTarget('fills'),
+        describe: describeToken,
+        apply: async (node, fix, issue) => {
+          const text = requireTextNode(node, fix);
+          if (issue.textRange) {
+            await text.setRangeFillStyleIdAsync(issue.textRange.start, issue.textRange.end, fix.styleId);
+          } else {
+            await text.setFillStyleIdAsync(fix.styleId);
+          }
+        }
+      },
+      backgroundColor: {
+        target: (node, fix) => ({ nodeId: fix.nodeId, property: 'fills', paintIndex: fix.fillIndex }),
+        describe: describeColor,
+        apply: (node, fix) => {
+          const backgroundNode = figma.getNodeById(fix.nodeId);
+          if (!backgroundNode || !('fills' in backgroundNode) || !Array.isArray(backgroundNode.fills)) {
+            throw new Error('Background layer not found');
+          }
+          backgroundNode.fills = replacePaintColor(backgroundNode.fills, fix.fillIndex, fix.value);
+        }
+      }
+    }
+  },
+  {
+    id: 'text-spacing',
+    title: 'Text Spacing',
+    successCriteria: ['1.4.12'],
+    levels: ['AA'],
+    nodeTypes: ['TEXT'],
+    defaultSeverity: 'fail',
+    enabledByDefault: true,
+    options: [],
+    config: () => ({ letterSpacingEm: RULE_THRESHOLDS.letterSpacingEm }),
+    check: (node, context) => checkTextSpacing(node, context.issues),
+    issueProperty: () => 'letterSpacing',
+    waiverProperties: node => ({ ...getTextWaiverBase(node), letterSpacing: node.type === 'TEXT' ? getMixedValue(node.letterSpacing) : null }),
+    fixers: {
+      letterSpacing: {
+        target: nodeTarget('letterSpacing'),
+        describe: describePixels,
+        apply: (node, fix, issue) => {
+          const text = requireTextNode(node, fix);
+          if (issue.textRange) {
+            text.setRangeLetterSpacing(issue.textRange.start, issue.textRange.end, { value: fix.value, unit: 'PIXELS' });
+          } else {
+            text.letterSpacing = { value: fix.value, unit: 'PIXELS' };
+          }
+        }
+      }
+    }
+  },
+  {
+    id: 'line-height',
+    title: 'Line Height',
+    successCriteria: ['1.4.12'],
+    levels: ['AA'],
+    nodeTypes: ['TEXT'],
+    defaultSeverity: 'fail',
+    enabledByDefault: true,
+    options: [],
+    config: () => ({ lineHeightRatio: RULE_THRESHOLDS.lineHeightRatio }),
+    check: (node, context) => checkLineHeight(node, context.issues),
+    issueProperty: () => 'lineHeight',
+    waiverProperties: node => ({ ...getTextWaiverBase(node), lineHeight: node.type === 'TEXT' ? getMixedValue(node.lineHeight) : null }),
+    fixers: {
+      lineHeight: {
+        target: nodeTarget('lineHeight'),
+        describe: describePixels,
+        apply: (node, fix, issue) => {
+          const text = requireTextNode(node, fix);
+          if (issue.textRange) {
+            text.setRangeLineHeight(issue.textRange.start, issue.textRange.end, { value: fix.value, unit: 'PIXELS' });
+          } else {
+            text.lineHeight = { value: fix.value, unit: 'PIXELS' };
+          }
+        }
+      }
+    }
+  },
+  {
+    id: 'paragraph-spacing',
+    title: 'Paragraph Spacing',
+    successCriteria: ['1.4.12'],
+    levels: ['AA'],
+    nodeTypes: ['TEXT'],
+    defaultSeverity: 'fail',
+    enabledByDefault: true,
+    options: [],
+    config: () => ({ paragraphSpacingRatio: RULE_THRESHOLDS.paragraphSpacingRatio }),
+    check: (node, context) => checkParagraphSpacing(node, context.issues),
+    issueProperty: () => 'paragraphSpacing',
+    waiverProperties: node => ({ ...getTextWaiverBase(node), paragraphSpacing: node.type === 'TEXT' ? node.paragraphSpacing : null }),
+    fixers: {
+      paragraphSpacing: {
+        // Node-level property, so the fix never has a range
+        target: node => ({ nodeId: node.id, property: 'paragraphSpacing' }),
+        describe: describePixels,
+        apply: (node, fix) => {
+          requireTextNode(node, fix).paragraphSpacing = fix.value;
+        }
+      }
+    }
+  },
+  {
+    id: 'non-text-contrast',
+    title: 'Non-text Contrast',
+    successCriteria: ['1.4.11'],
+    levels: ['AA'],
+    nodeTypes: NON_TEXT_SHAPE_TYPES.concat(NON_TEXT_CONTAINER_TYPES) as NodeType[],
+    defaultSeverity: 'fail',
+    enabledByDefault: true,
+    options: [],
+    config: () => ({ minimum: RULE_THRESHOLDS.nonTextContrast }),
+    appliesTo: (node, context) => node !== context.snapshot.frame && isNonTextCandidate(node),
+    check: (node, context) => checkNonTextContrast(context.snapshot, node, context.issues),
+    issueProperty: issue => {
+      const fix = issue.suggestedFix;
+      return fix ? `${fix.type.startsWith('stroke') ? 'strokes' : 'fills'}[${fix.paintIndex}]` : 'fills';
+    },
+    waiverProperties: node => getPaintWaiverProperties(node),
+    fixers: {
+      fillColor: {
+        target: (node, fix) => ({ nodeId: node.id, property: 'fills', paintIndex: fix.paintIndex }),
+        describe: describeColor,
+        apply: (node, fix) => {
+          (node as GeometryMixin).fills = replacePaintColor(requirePaints(node, 'fills', fix), fix.paintIndex, fix.value);
+        }
+      },
+      fillVariable: {
+        target: (node, fix) => ({ nodeId: node.id, property: 'fills', paintIndex: fix.paintIndex }),
+        describe: describeToken,
+        apply: async (node, fix) => {
+          const paints = requirePaints(node, 'fills', fix);
+          (node as GeometryMixin).fills = bindPaintVariable(paints, fix.paintIndex, await getFixVariable(fix));
+        }
+      },
+      fillStyle: {
+        target: (node, fix) => ({ nodeId: node.id, property: 'fills', paintIndex: fix.paintIndex }),
+        describe: describeToken,
+        apply: async (node, fix) => {
+          requirePaints(node, 'fills', fix);
+          await (node as SceneNode & MinimalFillsMixin).setFillStyleIdAsync(fix.styleId);
+        }
+      },
+      strokeColor: {
+        target: (node, fix) => ({ nodeId: node.id, property: 'strokes', paintIndex: fix.paintIndex }),
+        describe: describeColor,
+        apply: (node, fix) => {
+          (node as GeometryMixin).strokes = replacePaintColor(requirePaints(node, 'strokes', fix), fix.paintIndex, fix.value);
+        }
+      },
+      strokeVariable: {
+        target: (node, fix) => ({ nodeId: node.id, property: 'strokes', paintIndex: fix.paintIndex }),
+        describe: describeToken,
+        apply: async (node, fix) => {
+          const paints = requirePaints(node, 'strokes', fix);
+          (node as GeometryMixin).strokes = bindPaintVariable(paints, fix.paintIndex, await getFixVariable(fix));
+        }
+      },
+      strokeStyle: {
+        target: (node, fix) => ({ nodeId: node.id, property: 'strokes', paintIndex: fix.paintIndex }),
+        describe: describeToken,
+        apply: async (node, fix) => {
+          requirePaints(node, 'strokes', fix);
+          await (node as SceneNode & MinimalStrokesMixin).setStrokeStyleIdAsync(fix.styleId);
+        }
+      }
+    }
+  },
+  {
+    id: 'target-size',
+    title: 'Target Size',
+    successCriteria: ['2.5.8', '2.5.5'],
+    levels: ['AA', 'AAA'],
+    nodeTypes: null,
+    defaultSeverity: 'fail',
+    enabledByDefault: true,
+    options: [],
+    config: () => ({ aa: RULE_THRESHOLDS.targetSizeAA, aaa: RULE_THRESHOLDS.targetSizeAAA }),
+    prepare: snapshot => {
+      const targets = collectInteractiveTargets(snapshot);
+      return { targets, byId: new Map(targets.map(t => [t.id, t] as [string, InteractiveTarget])) };
+    },
+    appliesTo: (node, context) => context.prepared.byId.has(node.id),
+    check: (node, context) => checkTargetSize(node, context.prepared.byId.get(node.id), context.prepared.targets, context.issues),
+    issueProperty: () => 'size',
+    waiverProperties: node => ({ width: node.width, height: node.height }),
+    fixers: {
+      targetSize: {
+        target: node => ({ nodeId: node.id, property: 'size' }),
+        describe: fix => `${Math.round(fix.value.width)}×${Math.round(fix.value.height)}`,
+        apply: (node, fix) => {
+          if (!('resize' in node)) {
+            throw new Error(`Cannot apply ${fix.type} fix to ${node.type}`);
+          }
+          node.resize(fix.value.width, fix.value.height);
+        }
+      }
+    }
+  }
+];
+
+function getIssueRule(issue: AccessibilityIssue): AccessibilityRule | undefined {
+  return RULES.find(rule => rule.title === issue.issueType);
+}
+
+function getSelectedRules(checks: RuleSelection): AccessibilityRule[] {
+  return RULES.filter(rule => !!checks[rule.id]);
+}
+
+// Missing options fall back to the rule's defaults, so older selections keep working
+function resolveRuleOptions(rule: AccessibilityRule, options: RuleOptions | undefined): RuleOptions {
+  const resolved: RuleOptions = {};
+  for (const option of rule.options) {
+    resolved[option.id] = options && options[option.id] !== undefined ? options[option.id] : option.default;
+  }
+  return resolved;
+}
+
+// The registry without its functions, for the UI to build the rule list from
+function describeRules() {
+  return RULES.map(rule => ({
+    id: rule.id,
+    title: rule.title,
+    successCriteria: rule.successCriteria,
+    levels: rule.levels,
+    defaultSeverity: rule.defaultSeverity,
+    enabledByDefault: rule.enabledByDefault,
+    options: rule.options
+  }));
+}
+
+async function createOverlayFrame(targetFrame: FrameNode, issues: AccessibilityIssue[]) {
+  const frameBounds = targetFrame.absoluteBoundingBox;
+  if (!frameBounds) return;
+
+  console.log('Creating overlay for', issues.length, 'issues');
+
+  // Clear any existing overlays first
+  clearOverlays();
+
+  overlayFrame = figma.createFrame();
+  overlayFrame.name = '🔍 A11Y Overlay';
+  overlayFrame.resize(frameBounds.width, frameBounds.height);
+  overlayFrame.x = frameBounds.x;
+  overlayFrame.y = frameBounds.y;
+  overlayFrame.fills = [];
+  overlayFrame.locked = true;
+  overlayFrame.opacity = 1;
+
+  if (targetFrame.parent && 'insertChild' in targetFrame.parent) {
+    const targetIndex = targetFrame.parent.children.indexOf(targetFrame);
+    targetFrame.parent.insertChild(targetIndex + 1, overlayFrame);
+  }
+
+  // Load font once for all labels
+  try {
+    await figma.loadFontAsync({ family: 'Inter', style: 'Regular' });
+  } catch (error) {
+    console.error('Failed to load font for overlay labels:', error);
+    // Try fallback fonts
+    try {
+      await figma.loadFontAsync({ family: 'Roboto', style: 'Regular' });
+    } catch (fallbackError) {
+      try {
+        await figma.loadFontAsync({ family: 'Arial', style: 'Regular' });
+      } catch (finalError) {
+        console.error('All fonts failed, overlay will have no labels');
+        figma.notify('⚠ Overlay created but labels failed to load');
+      }
+    }
+  }
+
+  // Create highlight boxes for each issue
+  let createdCount = 0;
+  for (const issue of issues) {
+    if (issue.bounds && overlayFrame) {
+      try {
+        const box = figma.createRectangle();
+        box.name = `Issue: ${issue.issueType}`;
+
+        box.x = issue.bounds.x - frameBounds.x;
+        box.y = issue.bounds.y - frameBounds.y;
+        box.resize(issue.bounds.width, issue.bounds.height);
+
+        const color = issue.severity === 'fail'
+          ? { r: 0.95, g: 0.26, b: 0.21 }
+          : { r: 1, g: 0.76, b: 0.03 };
+
+        box.fills = [];
+        box.strokes = [{ type: 'SOLID', color }];
+        box.strokeWeight = 3;
+        box.dashPattern = [8, 4];
+        box.opacity = 0.9;
+
+        overlayFrame.appendChild(box);
+
+        // Try to add label (may fail if font loading failed)
+        try {
+          const label = figma.createText();
+          label.characters = issue.severity === 'fail' ? '✕' : '⚠';
+          label.fontSize = 16;
+          label.fills = [{ type: 'SOLID', color }];
+          label.x = box.x - 12;
+          label.y = box.y - 22;
+          overlayFrame.appendChild(label);
+        } catch (labelError) {
+          console.warn('Failed to create label:', labelError);
+        }
+
+        createdCount++;
+      } catch (error) {
+        console.error('Failed to create overlay element:', error);
+      }
+    }
+  }
+
+  console.log('Overlay created with', createdCount, 'elements');
+  figma.notify(`✓ Overlay created with ${createdCount} highlighted issues!`);
+}
+
+function clearOverlays() {
+  try {
+    // Clear the tracked overlay frame
+    if (overlayFrame) {
+      try {
+        overlayFrame.remove();
+      } catch (error) {
+        console.warn('Failed to remove tracked overlay:', error);
+      }
+      overlayFrame = null;
+    }
+
+    // Find and remove any orphaned overlays
+    const orphanedOverlays = figma.currentPage.findAll(node => node.name === '🔍 A11Y Overlay');
+    console.log('Found', orphanedOverlays.length, 'orphaned overlays to clean up');
+
+    orphanedOverlays.forEach(node => {
+      try {
+        // Check if node still exists in the document before removing
+        if (node && node.parent) {
+          node.remove();
+        }
+      } catch (error) {
+        console.warn('Failed to remove orphaned overlay:', error);
+        // Node might have already been deleted, continue
+      }
+    });
+
+    console.log('Overlays cleared successfully');
+  } catch (error) {
+    console.error('Error in clearOverlays:', error);
+  }
+}
+
+function getSolidFill(fills: ReadonlyArray<Paint>): SolidPaint | null {
+  for (const fill of fills) {
+    if (fill.type === 'SOLID' && fill.visible !== false) {
+      return fill;
+    }
+  }
+  return null;
+}
+
+function getTextColor(fills: ReadonlyArray<Paint>): RGB | null {
+  const fill = getSolidFill(fills);
+  return fill ? fill.color : null;
+}
+
+function boundsIntersect(a: Rect, b: Rect): boolean {
+  return a.x < b.x + b.width && a.x + a.width > b.x && a.y < b.y + b.height && a.y + a.height > b.y;
+}
+
+function boundsContain(outer: Rect, inner: Rect): boolean {
+  return outer.x <= inner.x && outer.y <= inner.y &&
+    outer.x + outer.width >= inner.x + inner.width &&
+    outer.y + outer.height >= inner.y + inner.height;
+}
+
+// Every visible layer painted before `node`, bottom-most first: each ancestor's own
+// fills, then the earlier siblings (with their subtrees) at every level
+function collectLayersBelow(snapshot: FrameSnapshot, node: NodeSnapshot, targetBounds: Rect): NodeSnapshot[] {
+  const layers: NodeSnapshot[] = [];
+  let index = 0;
+
+  while (index < node.zIndex) {
+    const layer = snapshot.paintOrder[index];
+    const isAncestor = node.zIndex < layer.subtreeEnd;
+
+    // Skipping a layer skips its whole subtree
+    if (!isAncestor && (!layer.visible ||
+        (layer.bounds && isClippingContainer(layer) && !boundsIntersect(layer.bounds, targetBounds)))) {
+      index = layer.subtreeEnd;
+      continue;
+    }
+
+    layers.push(layer);
+    index++;
+  }
+
+  return layers;
+}
+
+function blendChannel(src: number, dst: number, blendMode: BlendMode): number {
+  switch (blendMode) {
+    case 'MULTIPLY': return src * dst;
+    case 'SCREEN': return src + dst - src * dst;
+    case 'DARKEN': return Math.min(src, dst);
+    case 'LIGHTEN': return Math.max(src, dst);
+    case 'OVERLAY': return dst < 0.5 ? 2 * src * dst : 1 - 2 * (1 - src) * (1 - dst);
+    default: return src;
+  }
+}
+
+function blendColor(src: RGB, dst: RGB, alpha: number, blendMode: BlendMode = 'NORMAL'): RGB {
+  return {
+    r: dst.r * (1 - alpha) + blendChannel(src.r, dst.r, blendMode) * alpha,
+    g: dst.g * (1 - alpha) + blendChannel(src.g, dst.g, blendMode) * alpha,
+    b: dst.b * (1 - alpha) + blendChannel(src.b, dst.b, blendMode) * alpha
+  };
+}
+
+const SUPPORTED_BLEND_MODES: BlendMode[] = ['PASS_THROUGH', 'NORMAL', 'MULTIPLY', 'SCREEN', 'DARKEN', 'LIGHTEN', 'OVERLAY'];
+const MAX_BACKGROUND_CANDIDATES = 32;
+
+function dedupeCandidates(colors: RGB[]): RGB[] {
+  const unique = new Map<string, RGB>();
+  colors.forEach(color => unique.set(rgbToHex(color), color));
+
+  const sorted = Array.from(unique.values()).sort((a, b) => getLuminance(a) - getLuminance(b));
+  if (sorted.length <= MAX_BACKGROUND_CANDIDATES) return sorted;
+
+  // Keep an even spread across the luminance range, always including both extremes
+  const step = (sorted.length - 1) / (MAX_BACKGROUND_CANDIDATES - 1);
+  return Array.from({ length: MAX_BACKGROUND_CANDIDATES }, (_, i) => sorted[Math.round(i * step)]);
+}
+
+function resolveBackground(snapshot: FrameSnapshot, node: NodeSnapshot): ResolvedBackground {
+  let color: RGB = snapshot.pageBackground;
+  let candidates: RGB[] = [color];
+  let ambiguous = false;
+  let unresolvedPaint = false;
+  let source: ResolvedBackground['source'];
+
+  const targetBounds = node.bounds;
+  if (!targetBounds) {
+    return { color, candidates, ambiguous: true, unresolvedPaint };
+  }
+
+  for (const layer of collectLayersBelow(snapshot, node, targetBounds)) {
+    if (!Array.isArray(layer.fills)) continue;
+
+    const bounds = layer.bounds;
+    if (!bounds || !boundsIntersect(bounds, targetBounds)) continue;
+
+    const isRectangular = ['FRAME', 'RECTANGLE', 'COMPONENT', 'INSTANCE', 'SECTION'].includes(layer.type) &&
+      !(Math.abs(layer.rotation) > 0.01);
+    const fullyCovers = isRectangular && boundsContain(bounds, targetBounds);
+    const layerOpacity = layer.effectiveOpacity;
+    const layerBlend = layer.blendMode || 'NORMAL';
+
+    const fills = layer.fills as ReadonlyArray<Paint>;
+    for (let fillIndex = 0; fillIndex < fills.length; fillIndex++) {
+      const fill = fills[fillIndex];
+      if (fill.visible === false) continue;
+
+      const paintOpacity = (fill.opacity !== undefined ? fill.opacity : 1) * layerOpacity;
+      const blendMode = layerBlend !== 'NORMAL' && layerBlend !== 'PASS_THROUGH' ? layerBlend : (fill.blendMode || 'NORMAL');
+      if (!SUPPORTED_BLEND_MODES.includes(blendMode)) ambiguous = true;
+
+      if (fullyCovers) {
+        const isOpaqueSolid = fill.type === 'SOLID' && paintOpacity >= 1 && (blendMode === 'NORMAL' || blendMode === 'PASS_THROUGH');
+        source = isOpaqueSolid ? { nodeId: layer.id, fillIndex, bound: isPaintBound(fill as SolidPaint, layer.fillStyleId) } : undefined;
+      }
+
+      let stops: { color: RGB; alpha: number }[];
+      if (fill.type === 'SOLID') {
+        stops = [{ color: fill.color, alpha: paintOpacity }];
+      } else if (fill.type === 'GRADIENT_LINEAR' || fill.type === 'GRADIENT_RADIAL' ||
+                 fill.type === 'GRADIENT_ANGULAR' || fill.type === 'GRADIENT_DIAMOND') {
+        stops = fill.gradientStops.map(stop => ({
+          color: { r: stop.color.r, g: stop.color.g, b: stop.color.b },
+          alpha: stop.color.a * paintOpacity
+        }));
+        ambiguous = true;
+        unresolvedPaint = true;
+      } else {
+        // Image, video and pattern fills can't be resolved to a colour here
+        ambiguous = true;
+        unresolvedPaint = true;
+        continue;
+      }
+
+      const averageStop = {
+        r: stops.reduce((sum, s) => sum + s.color.r, 0) / stops.length,
+        g: stops.reduce((sum, s) => sum + s.color.g, 0) / stops.length,
+        b: stops.reduce((sum, s) => sum + s.color.b, 0) / stops.length
+      };
+      const averageAlpha = stops.reduce((sum, s) => sum + s.alpha, 0) / stops.length;
+      color = blendColor(averageStop, color, averageAlpha, blendMode);
+
+      const painted: RGB[] = [];
+      candidates.forEach(candidate => {
+        stops.forEach(stop => painted.push(blendColor(stop.color, candidate, stop.alpha, blendMode)));
+      });
+
+      if (fullyCovers) {
+        candidates = dedupeCandidates(painted);
+      } else {
+        // The layer only covers part of the node, so both outcomes are possible
+        candidates = dedupeCandidates(candidates.concat(painted));
+        ambiguous = true;
+      }
+    }
+  }
+
+  return { color, candidates, ambiguous, unresolvedPaint, source };
+}
+
+function getContrastRange(foreground: RGB, alpha: number, background: ResolvedBackground, algorithm: ContrastAlgorithm = 'wcag2'): ContrastRange {
+  let worst = Infinity;
+  let best = 0;
+  let worstBackground = background.color;
+
+  for (const candidate of background.candidates) {
+    const ratio = getContrastScore(blendColor(foreground, candidate, alpha), candidate, algorithm);
+    if (ratio < worst) {
+      worst = ratio;
+      worstBackground = candidate;
+    }
+    best = Math.max(best, ratio);
+  }
+
+  return { worst, best, worstBackground };
+}
+
+const SAMPLE_SIZE = 48;
+const IMAGE_DECODE_TIMEOUT = 5000;
+
+let imageRequestId = 0;
+const pendingImageDecodes = new Map<number, (pixels: number[] | null) => void>();
+
+interface ImageCrop {
+  // Region of the decoded image to keep, in its own pixels
+  source: Rect;
+  width: number;
+  height: number;
+}
+
+// The sandbox can't decode PNGs, so the UI iframe does it with a canvas and sends RGBA bytes back.
+// A crop draws just that region, scaled to the requested size, so large images never cross the bridge whole
+function decodeImagePixels(bytes: Uint8Array, crop?: ImageCrop): Promise<number[] | null> {
+  return new Promise(resolve => {
+    const requestId = ++imageRequestId;
+    const timeout = setTimeout(() => {
+      pendingImageDecodes.delete(requestId);
+      resolve(null);
+    }, IMAGE_DECODE_TIMEOUT);
+
+    pendingImageDecodes.set(requestId, pixels => {
+      clearTimeout(timeout);
+      resolve(pixels);
+    });
+
+    figma.ui.postMessage({ type: 'decode-image', requestId, bytes, crop });
+  });
+}
+
+// Largest side an exported background layer may have; bigger layers are exported at a lower scale
+const MAX_EXPORT_SIZE = 2048;
+
+interface SampleGrid {
+  region: Rect;
+  width: number;
+  height: number;
+  pixels: RGB[];
+}
+
+function getSampleCenter(grid: SampleGrid, index: number): { x: number; y: number } {
+  return {
+    x: grid.region.x + ((index % grid.width) + 0.5) * grid.region.width / grid.width,
+    y: grid.region.y + (Math.floor(index / grid.width) + 0.5) * grid.region.height / grid.height
+  };
+}
+
+function getGradientColor(paint: GradientPaint, u: number, v: number): RGBA {
+  const [[a, b, c], [d, e, f]] = paint.gradientTransform;
+  const x = a * u + b * v + c;
+  const y = d * u + e * v + f;
+
+  let t: number;
+  switch (paint.type) {
+    case 'GRADIENT_LINEAR': t = x; break;
+    case 'GRADIENT_RADIAL': t = Math.hypot(x - 0.5, y - 0.5) * 2; break;
+    case 'GRADIENT_DIAMOND': t = (Math.abs(x - 0.5) + Math.abs(y - 0.5)) * 2; break;
+    default: t = (Math.atan2(y - 0.5, x - 0.5) / (2 * Math.PI) + 1) % 1;
+  }
+
+  const stops = paint.gradientStops;
+  if (t <= stops[0].position) return stops[0].color;
+  for (let i = 1; i < stops.length; i++) {
+    if (t > stops[i].position) continue;
+    const from = stops[i - 1];
+    const to = stops[i];
+    const k = to.position > from.position ? (t - from.position) / (to.position - from.position) : 1;
+    return {
+      r: from.color.r + (to.color.r - from.color.r) * k,
+      g: from.color.g + (to.color.g - from.color.g) * k,
+      b: from.color.b + (to.color.b - from.color.b) * k,
+      a: from.color.a + (to.color.a - from.color.a) * k
+    };
+  }
+  return stops[stops.length - 1].color;
+}
+
+// Decodes the part of an image fill that lies under the grid. Tiled, rotated and skewed
+// images return null, as do images the file no longer has.
+async function decodeImageFill(paint: ImagePaint, layerBounds: Rect, grid: SampleGrid): Promise<number[] | null> {
+  if (!paint.imageHash || paint.scaleMode === 'TILE' || (paint.rotation || 0) % 360 !== 0) return null;
+
+  const image = figma.getImageByHash(paint.imageHash);
+  if (!image) return null;
+  const size = await image.getSizeAsync();
+
+  // Axis-aligned map from layer-normalized coordinates to image pixels: x = scaleX * u + offsetX
+  let scaleX: number, offsetX: number, scaleY: number, offsetY: number;
+  if (paint.scaleMode === 'CROP') {
+    const transform = paint.imageTransform || [[1, 0, 0], [0, 1, 0]];
+    if (transform[0][1] !== 0 || transform[1][0] !== 0) return null;
+    scaleX = transform[0][0] * size.width;
+    offsetX = transform[0][2] * size.width;
+    scaleY = transform[1][1] * size.height;
+    offsetY = transform[1][2] * size.height;
+  } else {
+    const fit = paint.scaleMode === 'FIT' ? Math.min : Math.max;
+    const scale = fit(layerBounds.width / size.width, layerBounds.height / size.height);
+    scaleX = layerBounds.width / scale;
+    offsetX = (size.width - layerBounds.width / scale) / 2;
+    scaleY = layerBounds.height / scale;
+    offsetY = (size.height - layerBounds.height / scale) / 2;
+  }
+
+  const u = (grid.region.x - layerBounds.x) / layerBounds.width;
+  const v = (grid.region.y - layerBounds.y) / layerBounds.height;
+  const bytes = await image.getBytesAsync();
+
+  return decodeImagePixels(bytes, {
+    source: {
+      x: scaleX * u + offsetX,
+      y: scaleY * v + offsetY,
+      width: scaleX * grid.region.width / layerBounds.width,
+      height: scaleY * grid.region.height / layerBounds.height
+    },
+    width: grid.width,
+    height: grid.height
+  });
+}
+
+// An ancestor's export would include the text itself, so its own fills are painted here
+// instead. Returns false for fills that can't be reproduced, such as video or tiled images.
+async function paintAncestorFills(layer: NodeSnapshot, grid: SampleGrid): Promise<boolean> {
+  const bounds = layer.bounds;
+  if (!bounds || !Array.isArray(layer.fills) || !boundsIntersect(bounds, grid.region)) return true;
+  if (Math.abs(layer.rotation) > 0.01) return false;
+
+  const layerBlend = layer.blendMode || 'NORMAL';
+
+  for (const fill of layer.fills as ReadonlyArray<Paint>) {
+    if (fill.visible === false) continue;
+
+    const paintOpacity = (fill.opacity !== undefined ? fill.opacity : 1) * layer.effectiveOpacity;
+    const blendMode = layerBlend !== 'NORMAL' && layerBlend !== 'PASS_THROUGH' ? layerBlend : (fill.blendMode || 'NORMAL');
+
+    let image: number[] | null = null;
+    if (fill.type === 'IMAGE') {
+      image = await decodeImageFill(fill, bounds, grid);
+      if (!image) return false;
+    } else if (fill.type !== 'SOLID' && fill.type !== 'GRADIENT_LINEAR' && fill.type !== 'GRADIENT_RADIAL' &&
+               fill.type !== 'GRADIENT_ANGULAR' && fill.type !== 'GRADIENT_DIAMOND') {
+      return false;
+    }
+
+    for (let i = 0; i < grid.pixels.length; i++) {
+      const center = getSampleCenter(grid, i);
+      const u = (center.x - bounds.x) / bounds.width;
+      const v = (center.y - bounds.y) / bounds.height;
+      if (u < 0 || u > 1 || v < 0 || v > 1) continue;
+
+      let color: RGB;
+      let alpha: number;
+      if (image) {
+        color = { r: image[i * 4] / 255, g: image[i * 4 + 1] / 255, b: image[i * 4 + 2] / 255 };
+        alpha = image[i * 4 + 3] / 255;
+      } else if (fill.type === 'SOLID') {
+        color = fill.color;
+        alpha = 1;
+      } else {
+        const stop = getGradientColor(fill as GradientPaint, u, v);
+        color = { r: stop.r, g: stop.g, b: stop.b };
+        alpha = stop.a;
+      }
+
+      grid.pixels[i] = blendColor(color, grid.pixels[i], alpha * paintOpacity, blendMode);
+    }
+  }
+
+  return true;
+}
+
+// Layers beside the text are exported whole, so strokes, vectors and effects come out as rendered
+async function paintExportedLayer(layer: NodeSnapshot, grid: SampleGrid): Promise<boolean> {
+  const bounds = layer.bounds;
+  if (!bounds || layer.isMask || layer.opacity <= 0) return true;
+
+  const scale = Math.min(grid.width / grid.region.width, MAX_EXPORT_SIZE / Math.max(bounds.width, bounds.height));
+  const bytes = await layer.node.exportAsync({
+    format: 'PNG',
+    useAbsoluteBounds: true,
+    constraint: { type: 'SCALE', value: scale }
+  });
+  const rgba = await decodeImagePixels(bytes, {
+    source: {
+      x: (grid.region.x - bounds.x) * scale,
+      y: (grid.region.y - bounds.y) * scale,
+      width: grid.region.width * scale,
+      height: grid.region.height * scale
+    },
+    width: grid.width,
+    height: grid.height
+  });
+  if (!rgba) return false;
+
+  // The export already carries the layer's own opacity, but not its ancestors'
+  const inheritedOpacity = layer.effectiveOpacity / layer.opacity;
+  const blendMode = layer.blendMode && layer.blendMode !== 'PASS_THROUGH' ? layer.blendMode : 'NORMAL';
+
+  for (let i = 0; i < grid.pixels.length; i++) {
+    const pixel = { r: rgba[i * 4] / 255, g: rgba[i * 4 + 1] / 255, b: rgba[i * 4 + 2] / 255 };
+    grid.pixels[i] = blendColor(pixel, grid.pixels[i], rgba[i * 4 + 3] / 255 * inheritedOpacity, blendMode);
+  }
+
+  return true;
+}
+
+// Composites what lies under the text without touching the document, so sampling adds no
+// undo history and no documentchange. Exporting needs the live document, so this is the one
+// rule step that reads past the snapshot.
+async function sampleBackgroundPixels(snapshot: FrameSnapshot, textSnapshot: NodeSnapshot): Promise<RGB[] | null> {
+  const bounds = textSnapshot.bounds;
+  if (!bounds) return null;
+
+  const scale = Math.min(1, SAMPLE_SIZE / Math.max(bounds.width, bounds.height));
+  const width = Math.max(1, Math.round(bounds.width * scale));
+  const height = Math.max(1, Math.round(bounds.height * scale));
+  const grid: SampleGrid = {
+    region: bounds,
+    width,
+    height,
+    pixels: new Array<RGB>(width * height).fill(snapshot.pageBackground)
+  };
+
+  try {
+    // Same walk as collectLayersBelow, but each earlier sibling is exported with its subtree
+    let index = 0;
+    while (index < textSnapshot.zIndex) {
+      const layer = snapshot.paintOrder[index];
+
+      if (textSnapshot.zIndex < layer.subtreeEnd) {
+        if (!await paintAncestorFills(layer, grid)) return null;
+        index++;
+        continue;
+      }
+
+      if (layer.visible && layer.bounds && boundsIntersect(layer.bounds, bounds)) {
+        if (!await paintExportedLayer(layer, grid)) return null;
+      }
+      index = layer.subtreeEnd;
+    }
+
+    return grid.pixels;
+  } catch (error) {
+    console.error('Failed to sample background pixels:', textSnapshot.name, error);
+    return null;
+  }
+}
+
+function getSampledContrastRange(foreground: RGB, alpha: number, pixels: RGB[], algorithm: ContrastAlgorithm = 'wcag2'): ContrastRange {
+  const ratios = pixels.map(pixel => getContrastScore(blendColor(foreground, pixel, alpha), pixel, algorithm));
+  const worstIndex = ratios.indexOf(Math.min(...ratios));
+  const sorted = ratios.slice().sort((a, b) => a - b);
+
+  return {
+    worst: sorted[0],
+    best: sorted[sorted.length - 1],
+    worstBackground: pixels[worstIndex],
+    median: sorted[Math.floor(sorted.length / 2)],
+    ratios: ratios
+  };
+}
+
+function getSampledContrast(range: ContrastRange, required: number) {
+  if (!range.ratios || range.median === undefined) return undefined;
+
+  return {
+    min: range.worst,
+    median: range.median,
+    failingShare: range.ratios.filter(ratio => ratio < required).length / range.ratios.length
+  };
+}
+
+function formatSampledContrast(range: ContrastRange, required: number, algorithm: ContrastAlgorithm = 'wcag2'): string {
+  const sampled = getSampledContrast(range, required);
+  if (!sampled) return formatContrastRange(range, algorithm);
+  return `min ${formatContrastScore(sampled.min, algorithm)}, median ${formatContrastScore(sampled.median, algorithm)} (${Math.round(sampled.failingShare * 100)}% failing)`;
+}
+
+function formatContrastRange(range: ContrastRange, algorithm: ContrastAlgorithm = 'wcag2'): string {
+  if (range.best - range.worst < 0.01) {
+    return formatContrastScore(range.worst, algorithm);
+  }
+  return `${formatContrastScore(range.worst, algorithm)} (best ${formatContrastScore(range.best, algorithm)})`;
+}
+
+function getContrastRatio(color1: RGB, color2: RGB): number {
+  const l1 = getLuminance(color1);
+  const l2 = getLuminance(color2);
+  const lighter = Math.max(l1, l2);
+  const darker = Math.min(l1, l2);
+  return (lighter + 0.05) / (darker + 0.05);
+}
+
+function getLuminance(color: RGB): number {
+  const r = color.r <= 0.03928 ? color.r / 12.92 : Math.pow((color.r + 0.055) / 1.055, 2.4);
+  const g = color.g <= 0.03928 ? color.g / 12.92 : Math.pow((color.g + 0.055) / 1.055, 2.4);
+  const b = color.b <= 0.03928 ? color.b / 12.92 : Math.pow((color.b + 0.055) / 1.055, 2.4);
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+}
+
+// APCA 0.0.98G-4g constants (WCAG 3 draft)
+const APCA = {
+  mainTRC: 2.4,
+  sRco: 0.2126729,
+  sGco: 0.7151522,
+  sBco: 0.0721750,
+  normBG: 0.56,
+  normTXT: 0.57,
+  revTXT: 0.62,
+  revBG: 0.65,
+  blkThrs: 0.022,
+  blkClmp: 1.414,
+  scaleBoW: 1.14,
+  scaleWoB: 1.14,
+  loBoWoffset: 0.027,
+  loWoBoffset: 0.027,
+  deltaYmin: 0.0005,
+  loClip: 0.1
+};
+
+// Minimum |Lc| per font size (px) for weights 100–900. Combinations APCA marks as
+// unsuitable for content text are held to Lc 100.
+const APCA_FONT_LOOKUP: [number, number[]][] = [
+  [14, [100, 100, 100, 100, 100, 90, 75, 100, 100]],
+  [15, [100, 100, 100, 100, 90, 75, 70, 100, 100]],
+  [16, [100, 100, 100, 90, 75, 70, 60, 60, 100]],
+  [18, [100, 100, 100, 75, 70, 60, 55, 55, 55]],
+  [21, [100, 100, 90, 70, 60, 55, 50, 50, 50]],
+  [24, [100, 100, 75, 60, 55, 50, 45, 45, 45]],
+  [28, [100, 100, 70, 55, 50, 45, 43, 43, 43]],
+  [32, [100, 90, 65, 50, 45, 43, 40, 40, 40]],
+  [36, [100, 75, 60, 45, 43, 40, 38, 38, 38]],
+  [42, [100, 70, 55, 43, 40, 38, 35, 35, 35]],
+  [48, [90, 60, 50, 40, 38, 35, 33, 33, 33]],
+  [60, [75, 55, 45, 38, 35, 33, 30, 30, 30]],
+  [72, [60, 50, 40, 35, 33, 30, 30, 30, 30]],
+  [96, [50, 45, 35, 33, 30, 30, 30, 30, 30]]
+];
+
+// APCA's "preferred" level sits 15 Lc above the minimum; used as the AAA-equivalent
+const APCA_PREFERRED_OFFSET = 15;
+
+function getApcaLuminance(color: RGB): number {
+  const y = APCA.sRco * Math.pow(color.r, APCA.mainTRC) +
+    APCA.sGco * Math.pow(color.g, APCA.mainTRC) +
+    APCA.sBco * Math.pow(color.b, APCA.mainTRC);
+  return y > APCA.blkThrs ? y : y + Math.pow(APCA.blkThrs - y, APCA.blkClmp);
+}
+
+function getApcaContrast(text: RGB, background: RGB): number {
+  const yText = getApcaLuminance(text);
+  const yBg = getApcaLuminance(background);
+
+  if (Math.abs(yBg - yText) < APCA.deltaYmin) return 0;
+
+  let output: number;
+  if (yBg > yText) {
+    const sapc = (Math.pow(yBg, APCA.normBG) - Math.pow(yText, APCA.normTXT)) * APCA.scaleBoW;
+    output = sapc < APCA.loClip ? 0 : sapc - APCA.loBoWoffset;
+  } else {
+    const sapc = (Math.pow(yBg, APCA.revBG) - Math.pow(yText, APCA.revTXT)) * APCA.scaleWoB;
+    output = sapc > -APCA.loClip ? 0 : sapc + APCA.loWoBoffset;
+  }
+
+  return output * 100;
+}
+
+function getApcaRequirement(fontSize: number, fontWeight: number): number {
+  const weightIndex = Math.max(0, Math.min(8, Math.round(fontWeight / 100) - 1));
+  let row = APCA_FONT_LOOKUP[0][1];
+
+  for (const [size, values] of APCA_FONT_LOOKUP) {
+    if (fontSize >= size) row = values;
+  }
+
+  return row[weightIndex];
+}
+
+function getTextContrastRequirements(fontSize: number, fontWeight: number, algorithm: ContrastAlgorithm) {
+  if (algorithm === 'apca') {
+    const minimum = getApcaRequirement(fontSize, fontWeight);
+    return { aa: minimum, aaa: Math.min(minimum + APCA_PREFERRED_OFFSET, 106) };
+  }
+
+  const isLargeText = fontSize >= 18 || (fontSize >= 14 && fontWeight >= 700);
+  return { aa: isLargeText ? 3.0 : 4.5, aaa: isLargeText ? 4.5 : 7.0 };
+}
+
+// Contrast as a single "higher is better" score: the WCAG 2.x ratio or APCA |Lc|
+function getContrastScore(foreground: RGB, background: RGB, algorithm: ContrastAlgorithm = 'wcag2'): number {
+  if (algorithm === 'apca') {
+    return Math.abs(getApcaContrast(foreground, background));
+  }
+  return getContrastRatio(foreground, background);
+}
+
+function formatContrastScore(value: number, algorithm: ContrastAlgorithm = 'wcag2'): string {
+  return algorithm === 'apca' ? `Lc ${value.toFixed(1)}` : `${value.toFixed(2)}:1`;
+}
+
+function formatContrastRequirement(value: number, algorithm: ContrastAlgorithm = 'wcag2'): string {
+  return algorithm === 'apca' ? `Lc ${value}` : `${value}:1`;
+}
+
+// The candidate is scored as it will render: at the text's alpha over the background
+function calculateBetterColor(textColor: RGB, bgColor: RGB, targetRatio: number, algorithm: ContrastAlgorithm = 'wcag2', alpha = 1): RGB {
+  return findClosestPassingColor(textColor, candidate => getContrastScore(blendColor(candidate, bgColor, alpha), bgColor, algorithm), targetRatio);
+}
+
+interface OKLCH {
+  l: number;
+  c: number;
+  h: number;
+}
+
+function srgbToLinear(channel: number): number {
+  return channel <= 0.04045 ? channel / 12.92 : Math.pow((channel + 0.055) / 1.055, 2.4);
+}
+
+function linearToSrgb(channel: number): number {
+  return channel <= 0.0031308 ? channel * 12.92 : 1.055 * Math.pow(channel, 1 / 2.4) - 0.055;
+}
+
+function rgbToOklab(color: RGB): { l: number; a: number; b: number } {
+  const r = srgbToLinear(color.r);
+  const g = srgbToLinear(color.g);
+  const b = srgbToLinear(color.b);
+
+  const l = Math.cbrt(0.4122214708 * r + 0.5363325363 * g + 0.0514459929 * b);
+  const m = Math.cbrt(0.2119034982 * r + 0.6806995451 * g + 0.1073969566 * b);
+  const s = Math.cbrt(0.0883024619 * r + 0.2817188376 * g + 0.6299787005 * b);
+
+  return {
+    l: 0.2104542553 * l + 0.7936177850 * m - 0.0040720468 * s,
+    a: 1.9779984951 * l - 2.4285922050 * m + 0.4505937099 * s,
+    b: 0.0259040371 * l + 0.7827717662 * m - 0.8086757660 * s
+  };
+}
+
+// Returns linear RGB, which may fall outside [0, 1] when the colour is out of gamut
+function oklabToLinearRgb(lab: { l: number; a: number; b: number }): RGB {
+  const l = Math.pow(lab.l + 0.3963377774 * lab.a + 0.2158037573 * lab.b, 3);
+  const m = Math.pow(lab.l - 0.1055613458 * lab.a - 0.0638541728 * lab.b, 3);
+  const s = Math.pow(lab.l - 0.0894841775 * lab.a - 1.2914855480 * lab.b, 3);
+
+  return {
+    r: 4.0767416621 * l - 3.3077115913 * m + 0.2309699292 * s,
+    g: -1.2684380046 * l + 2.6097574011 * m - 0.3413193965 * s,
+    b: -0.0041960863 * l - 0.7034186147 * m + 1.7076147010 * s
+  };
+}
+
+function rgbToOklch(color: RGB): OKLCH {
+  const lab = rgbToOklab(color);
+  return {
+    l: lab.l,
+    c: Math.sqrt(lab.a * lab.a + lab.b * lab.b),
+    h: Math.atan2(lab.b, lab.a)
+  };
+}
+
+function isInGamut(linear: RGB): boolean {
+  const epsilon = 0.0001;
+  return [linear.r, linear.g, linear.b].every(channel => channel >= -epsilon && channel <= 1 + epsilon);
+}
+
+// Keeps lightness and hue; chroma is reduced only as far as needed to stay in sRGB
+function oklchToRgb(color: OKLCH): RGB {
+  const toLinear = (chroma: number) => oklabToLinearRgb({
+    l: color.l,
+    a: chroma * Math.cos(color.h),
+    b: chroma * Math.sin(color.h)
+  });
+
+  let linear = toLinear(color.c);
+  if (!isInGamut(linear)) {
+    let lo = 0;
+    let hi = color.c;
+    for (let i = 0; i < 20; i++) {
+      const mid = (lo + hi) / 2;
+      if (isInGamut(toLinear(mid))) lo = mid;
+      else hi = mid;
+    }
+    linear = toLinear(lo);
+  }
+
+  const clamp = (channel: number) => Math.max(0, Math.min(1, linearToSrgb(Math.max(0, channel))));
+  return { r: clamp(linear.r), g: clamp(linear.g), b: clamp(linear.b) };
+}
+
+// ΔE in OKLab, scaled so that ~2 is a just-noticeable difference
+function getDeltaE(a: RGB, b: RGB): number {
+  const labA = rgbToOklab(a);
+  const labB = rgbToOklab(b);
+  return Math.sqrt(
+    Math.pow(labA.l - labB.l, 2) + Math.pow(labA.a - labB.a, 2) + Math.pow(labA.b - labB.b, 2)
+  ) * 100;
+}
+
+function snapToHex(color: RGB): RGB {
+  return {
+    r: Math.round(color.r * 255) / 255,
+    g: Math.round(color.g * 255) / 255,
+    b: Math.round(color.b * 255) / 255
+  };
+}
+
+// Closest colour (by OKLCH lightness, same hue and chroma) whose score reaches the target.
+// Searches both darker and lighter and keeps whichever passing colour moved least.
+function findClosestPassingColor(color: RGB, score: (candidate: RGB) => number, target: number): RGB {
+  const start = rgbToOklch(color);
+  let best: RGB | null = null;
+  let bestDelta = Infinity;
+  let fallback = color;
+  let fallbackScore = score(color);
+
+  for (const extreme of [0, 1]) {
+    const extremeColor = snapToHex(oklchToRgb({ ...start, l: extreme }));
+    const extremeScore = score(extremeColor);
+
+    if (extremeScore > fallbackScore) {
+      fallback = extremeColor;
+      fallbackScore = extremeScore;
+    }
+    if (extremeScore < target) continue;
+
+    // `passing` always meets the target; `failing` is the original lightness side
+    let passing = extreme;
+    let failing = start.l;
+    for (let i = 0; i < 32; i++) {
+      const mid = (passing + failing) / 2;
+      if (score(oklchToRgb({ ...start, l: mid })) >= target) passing = mid;
+      else failing = mid;
+    }
+
+    // Rounding to 8-bit can drop the score just below the target, so nudge further out
+    let candidate = snapToHex(oklchToRgb({ ...start, l: passing }));
+    const step = extreme === 0 ? -0.001 : 0.001;
+    for (let i = 0; i < 50 && score(candidate) < target; i++) {
+      passing = Math.max(0, Math.min(1, passing + step));
+      candidate = snapToHex(oklchToRgb({ ...start, l: passing }));
+    }
+    if (score(candidate) < target) candidate = extremeColor;
+
+    const delta = getDeltaE(color, candidate);
+    if (delta < bestDelta) {
+      best = candidate;
+      bestDelta = delta;
+    }
+  }
+
+  return best || fallback;
+}
+
+type ColorBinding =
+  | { kind: 'variable'; variable: Variable }
+  | { kind: 'style'; style: PaintStyle };
+
+interface ColorTokenMatch {
+  name: string;
+  color: RGB;
+  deltaE: number;
+  fix: any;
+}
+
+const tokenCache = new Map<string, Promise<Variable[]>>();
+let paintStyleCache: Promise<PaintStyle[]> | null = null;
+
+// Cleared with tokenCache at the start of each analysis
+function getCachedPaintStyles(): Promise<PaintStyle[]> {
+  if (!paintStyleCache) {
+    paintStyleCache = figma.getLocalPaintStylesAsync().catch(error => {
+      console.warn('Failed to read local paint styles:', error);
+      return [] as PaintStyle[];
+    });
+  }
+  return paintStyleCache;
+}
+
+function isPaintBound(paint: SolidPaint, styleId: string | PluginAPI['mixed'] | null): boolean {
+  return !!(paint.boundVariables && paint.boundVariables.color) || (typeof styleId === 'string' && styleId !== '');
+}
+
+async function getColorBinding(fill: SolidPaint, fillStyleId: string): Promise<ColorBinding | null> {
+  const alias = fill.boundVariables && fill.boundVariables.color;
+  if (alias) {
+    const variable = await figma.variables.getVariableByIdAsync(alias.id);
+    if (variable) return { kind: 'variable', variable };
+  }
+
+  if (fillStyleId) {
+    const style = await figma.getStyleByIdAsync(fillStyleId);
+    if (style && style.type === 'PAINT') return { kind: 'style', style: style as PaintStyle };
+  }
+
+  return null;
+}
+
+function getCachedVariables(key: string, load: () => Promise<Variable[]>): Promise<Variable[]> {
+  let variables = tokenCache.get(key);
+  if (!variables) {
+    variables = load().catch(error => {
+      console.warn('Failed to load color variables:', key, error);
+      return [] as Variable[];
+    });
+    tokenCache.set(key, variables);
+  }
+  return variables;
+}
+
+// Local colour variables, plus the library collection the bound variable came from.
+// Library styles can't be enumerated by the plugin API, so only local styles are searched.
+// Analysis never imports: a library variable is a candidate only once the file already
+// holds a copy to resolve, and only while the library still publishes it. The fixer
+// imports the one that's picked.
+async function getCandidateVariables(bound: Variable): Promise<Variable[]> {
+  const variables = (await getCachedVariables('local', () => figma.variables.getLocalVariablesAsync('COLOR'))).slice();
+
+  const collection = await figma.variables.getVariableCollectionByIdAsync(bound.variableCollectionId);
+  if (collection && collection.remote) {
+    variables.push(...await getCachedVariables(collection.key, async () => {
+      const libraryVariables = await figma.teamLibrary.getVariablesInLibraryCollectionAsync(collection.key);
+      const published = new Set(libraryVariables.filter(v => v.resolvedType === 'COLOR').map(v => v.key));
+      const inFile = await Promise.all(collection.variableIds.map(id => figma.variables.getVariableByIdAsync(id)));
+      return inFile.filter((v): v is Variable => !!v && v.resolvedType === 'COLOR' && published.has(v.key));
+    }));
+  }
+
+  return variables;
+}
+
+// Fix types for a token of each kind, e.g. textVariable / textStyle
+interface TokenFixTypes {
+  variable: string;
+  style: string;
+}
+
+const TEXT_TOKEN_FIXES: TokenFixTypes = { variable: 'textVariable', style: 'textStyle' };
+
+async function findPassingToken(
+  binding: ColorBinding,
+  node: SceneNode,
+  textColor: RGB,
+  bgColor: RGB,
+  target: number,
+  algorithm: ContrastAlgorithm,
+  paintOpacity: number,
+  nodeOpacity: number,
+  fixTypes: TokenFixTypes = TEXT_TOKEN_FIXES
+): Promise<ColorTokenMatch | null> {
+  const matches: (ColorTokenMatch & { sameGroup: boolean })[] = [];
+
+  if (binding.kind === 'variable') {
+    for (const variable of await getCandidateVariables(binding.variable)) {
+      const { value } = variable.resolveForConsumer(node);
+      if (!value || typeof value !== 'object' || !('r' in value)) continue;
+
+      // A bound variable keeps the paint's own opacity; a style brings its own
+      const alpha = ('a' in value ? value.a : 1) * paintOpacity * nodeOpacity;
+      const color = blendColor({ r: value.r, g: value.g, b: value.b }, bgColor, alpha);
+      if (getContrastScore(color, bgColor, algorithm) < target) continue;
+
+      matches.push({
+        name: variable.name,
+        color,
+        deltaE: getDeltaE(textColor, color),
+        sameGroup: variable.variableCollectionId === binding.variable.variableCollectionId,
+        fix: {
+          type: fixTypes.variable,
+          variableId: variable.id,
+          variableKey: variable.remote ? variable.key : undefined,
+          name: variable.name,
+          value: { r: value.r, g: value.g, b: value.b },
+          opacity: paintOpacity
+        }
+      });
+    }
+  } else {
+    const group = binding.style.name.split('/').slice(0, -1).join('/');
+    for (const style of await getCachedPaintStyles()) {
+      const fill = getSolidFill(style.paints);
+      if (!fill) continue;
+
+      const alpha = (fill.opacity !== undefined ? fill.opacity : 1) * nodeOpacity;
+      const color = blendColor(fill.color, bgColor, alpha);
+      if (getContrastScore(color, bgColor, algorithm) < target) continue;
+
+      matches.push({
+        name: style.name,
+        color,
+        deltaE: getDeltaE(textColor, color),
+        sameGroup: style.name.split('/').slice(0, -1).join('/') === group,
+        fix: { type: fixTypes.style, styleId: style.id, name: style.name, value: fill.color }
+      });
+    }
+  }
+
+  // Prefer tokens from the same collection / style group, then the smallest visual change
+  matches.sort((a, b) => Number(b.sameGroup) - Number(a.sameGroup) || a.deltaE - b.deltaE);
+  return matches.length > 0 ? matches[0] : null;
+}
+
+async function buildTextColorFix(
+  node: SceneNode,
+  fill: SolidPaint,
+  fillStyleId: string,
+  background: ResolvedBackground,
+  bgColor: RGB,
+  target: number,
+  algorithm: ContrastAlgorithm,
+  palette: RGB[],
+  nodeOpacity: number
+): Promise<{ description: string; fix: any; alternatives: FixAlternative[] }> {
+  const textColor = fill.color;
+  // Colour fixes keep the paint's opacity and the node's, so candidates are measured with both
+  const paintOpacity = fill.opacity !== undefined ? fill.opacity : 1;
+  const alpha = paintOpacity * nodeOpacity;
+  const suggestedColor = calculateBetterColor(textColor, bgColor, target, algorithm, alpha);
+  const rawFix = { type: 'textColor', value: suggestedColor, opacity: paintOpacity };
+  const rawDelta = getDeltaE(textColor, suggestedColor);
+  const alternatives = buildColorAlternatives(textColor, suggestedColor, background, bgColor, target, algorithm, palette, paintOpacity, alpha);
+
+  const binding = await getColorBinding(fill, fillStyleId);
+  if (binding) {
+    const token = await findPassingToken(binding, node, textColor, bgColor, target, algorithm, paintOpacity, nodeOpacity);
+    if (token) {
+      return {
+        description: `to ${binding.kind} "${token.name}" (${rgbToHex(token.color)}, ΔE ${token.deltaE.toFixed(1)})`,
+        fix: token.fix,
+        alternatives: [{
+          label: 'Raw color (detaches token)',
+          color: rgbToHex(suggestedColor),
+          deltaE: rawDelta,
+          fix: rawFix
+        }, ...alternatives]
+      };
+    }
+  }
+
+  return {
+    description: `to ${rgbToHex(suggestedColor)} (ΔE ${rawDelta.toFixed(1)})${binding ? `, detaching ${binding.kind} "${binding.kind === 'variable' ? binding.variable.name : binding.style.name}" as no token passes` : ''}`,
+    fix: rawFix,
+    alternatives
+  };
+}
+
+async function collectPalette(snapshot: FrameSnapshot): Promise<RGB[]> {
+  const colors = new Map<string, RGB>();
+
+  for (const style of await getCachedPaintStyles()) {
+    const fill = getSolidFill(style.paints);
+    if (fill) colors.set(rgbToHex(fill.color), fill.color);
+  }
+
+  for (const n of snapshot.frameNodes) {
+    if (Array.isArray(n.fills)) {
+      const fill = getSolidFill(n.fills);
+      if (fill) colors.set(rgbToHex(fill.color), fill.color);
+    }
+  }
+
+  return Array.from(colors.values());
+}
+
+function buildColorAlternatives(
+  textColor: RGB,
+  suggestedColor: RGB,
+  background: ResolvedBackground,
+  bgColor: RGB,
+  target: number,
+  algorithm: ContrastAlgorithm,
+  palette: RGB[],
+  paintOpacity: number,
+  alpha: number
+): FixAlternative[] {
+  const alternatives: FixAlternative[] = [];
+  const backgroundScore = (candidate: RGB) => getContrastScore(blendColor(textColor, candidate, alpha), candidate, algorithm);
+
+  // Changing the background only helps when a single opaque layer decides it
+  if (background.source && !background.ambiguous) {
+    const newBackground = findClosestPassingColor(bgColor, backgroundScore, target);
+    if (backgroundScore(newBackground) >= target) {
+      alternatives.push({
+        label: background.source.bound ? 'Change background instead (detaches token)' : 'Change background instead',
+        color: rgbToHex(newBackground),
+        deltaE: getDeltaE(bgColor, newBackground),
+        fix: { type: 'backgroundColor', nodeId: background.source.nodeId, fillIndex: background.source.fillIndex, value: newBackground }
+      });
+    }
+  }
+
+  let nearest: RGB | null = null;
+  let nearestDelta = Infinity;
+  for (const color of palette) {
+    if (getContrastScore(blendColor(color, bgColor, alpha), bgColor, algorithm) < target) continue;
+    const delta = getDeltaE(textColor, color);
+    if (delta < nearestDelta && rgbToHex(color) !== rgbToHex(suggestedColor)) {
+      nearest = color;
+      nearestDelta = delta;
+    }
+  }
+
+  if (nearest) {
+    alternatives.push({
+      label: 'Nearest palette color',
+      color: rgbToHex(nearest),
+      deltaE: nearestDelta,
+      fix: { type: 'textColor', value: nearest, opacity: paintOpacity }
+    });
+  }
+
+  return alternatives;
+}
+
+function rgbToHex(color: RGB): string {
+  const r = Math.round(color.r * 255);
+  const g = Math.round(color.g * 255);
+  const b = Math.round(color.b * 255);
+  return `#${r.toString(16).padStart(2, '0')}${g.toString(16).padStart(2, '0')}${b.toString(16).padStart(2, '0')}`;
+}
+
+function getIssueProperty(issue: AccessibilityIssue): string {
+  const rule = getIssueRule(issue);
+  return rule ? rule.issueProperty(issue) : '';
+}
+
+// Severity and suggested fix are left out on purpose, so an AA failure that improves to an
+// AAA warning is still recognised as the same issue across runs
+function getIssueFingerprint(issue: AccessibilityIssue): string {
+  const ruleId = getIssueRuleId(issue);
+  const range = issue.textRange ? `${issue.textRange.start}-${issue.textRange.end}` : '';
+  return `${ruleId}|${issue.elementId}|${range}|${getIssueProperty(issue)}`;
+}
+
+function findIssue(fingerprint: string): AccessibilityIssue | undefined {
+  return currentIssues.find(issue => getIssueFingerprint(issue) === fingerprint);
+}
+
+interface IssueChange {
+  fingerprint: string;
+  elementName: string;
+  issueType: string;
+  severity: 'fail' | 'warning';
+  previousValue?: string;
+  currentValue?: string;
+}
+
+interface AnalysisDiff {
+  added: IssueChange[];
+  resolved: IssueChange[];
+  worse: IssueChange[];
+  better: IssueChange[];
+  unchanged: IssueChange[];
+  // Titles of rules only one of the two analyses ran; their issues are left out of the diff
+  uncomparedRules: string[];
+}
+
+const SEVERITY_RANK = { warning: 1, fail: 2 };
+
+// Positive when the current issue is further from passing than the previous one
+function compareIssueSeverity(previous: AccessibilityIssue, current: AccessibilityIssue): number {
+  const rankDelta = SEVERITY_RANK[current.severity] - SEVERITY_RANK[previous.severity];
+  if (rankDelta !== 0) return rankDelta;
+
+  if (previous.measuredValue === undefined || current.measuredValue === undefined) return 0;
+
+  // Every rule measures something where more is better: contrast, spacing, size
+  const valueDelta = previous.measuredValue - current.measuredValue;
+  return Math.abs(valueDelta) < 0.01 ? 0 : valueDelta;
+}
+
+// A WCAG ratio and an APCA Lc can't be compared, so an issue measured with another
+// algorithm counts as a different issue. Results from before the algorithm option were WCAG 2.
+function getDiffKey(issue: AccessibilityIssue): string {
+  const fingerprint = getIssueFingerprint(issue);
+  if (getIssueRuleId(issue) !== 'color-contrast') return fingerprint;
+  return `${fingerprint}|${issue.contrastAlgorithm || 'wcag2'}`;
+}
+
+// Rule ids an analysis ran, or null for analyses stored before rule configs were recorded
+function getAnalysisRuleIds(analysis: StoredAnalysis): string[] | null {
+  const configs = analysis.analysis_data.rule_configs;
+  return configs ? Object.keys(configs) : null;
+}
+
+// A rule that only one side ran would show all its issues as new or resolved, so only
+// rules both analyses ran are compared
+function diffAnalyses(from: StoredAnalysis, to: StoredAnalysis): AnalysisDiff {
+  const fromRules = getAnalysisRuleIds(from);
+  const toRules = getAnalysisRuleIds(to);
+
+  let compared: Set<string> | null = null;
+  const uncompared: string[] = [];
+  if (fromRules && toRules) {
+    compared = new Set(fromRules.filter(ruleId => toRules.includes(ruleId)));
+    for (const ruleId of fromRules.concat(toRules)) {
+      if (compared.has(ruleId)) continue;
+      const rule = RULES.find(r => r.id === ruleId);
+      const title = rule ? rule.title : ruleId;
+      if (!uncompared.includes(title)) uncompared.push(title);
+    }
+  }
+
+  const inComparedRules = (issue: AccessibilityIssue) => !compared || compared.has(getIssueRuleId(issue));
+  const diff = diffIssues(
+    (from.analysis_data.issues || []).filter(inComparedRules),
+    (to.analysis_data.issues || []).filter(inComparedRules)
+  );
+  diff.uncomparedRules = uncompared;
+  return diff;
+}
+
+function diffIssues(previous: AccessibilityIssue[], current: AccessibilityIssue[]): AnalysisDiff {
+  const diff: AnalysisDiff = { added: [], resolved: [], worse: [], better: [], unchanged: [], uncomparedRules: [] };
+  const previousByKey = new Map<string, AccessibilityIssue>();
+
+  for (const issue of previous) {
+    if (!issue.waiver) previousByKey.set(getDiffKey(issue), issue);
+  }
+
+  const toChange = (issue: AccessibilityIssue, before?: AccessibilityIssue): IssueChange => ({
+    fingerprint: getIssueFingerprint(issue),
+    elementName: issue.elementName,
+    issueType: issue.issueType,
+    severity: issue.severity,
+    previousValue: before ? before.currentValue : undefined,
+    currentValue: issue.currentValue
+  });
+
+  for (const issue of current) {
+    if (issue.waiver) continue;
+
+    const key = getDiffKey(issue);
+    const before = previousByKey.get(key);
+    if (!before) {
+      diff.added.push(toChange(issue));
+      continue;
+    }
+
+    previousByKey.delete(key);
+    const comparison = compareIssueSeverity(before, issue);
+    if (comparison > 0) diff.worse.push(toChange(issue, before));
+    else if (comparison < 0) diff.better.push(toChange(issue, before));
+    else diff.unchanged.push(toChange(issue, before));
+  }
+
+  for (const issue of previousByKey.values()) {
+    diff.resolved.push({ ...toChange(issue), previousValue: issue.currentValue, currentValue: undefined });
+  }
+
+  return diff;
+}
+
+function loadFrameHistory(frameId: string, scope: HistoryScope): Promise<StoredAnalysis[]> {
+  return scope === 'team' ? historyStore.getTeamFrameHistory(frameId) : historyStore.getFrameHistory(frameId);
+}
+
+async function postAnalysisDiff(frameId: string, fromId?: string, toId?: string, scope: HistoryScope = 'mine'): Promise<void> {
+  try {
+    const history = await loadFrameHistory(frameId, scope);
+    const to = toId ? history.find(a => a.id === toId) : history[0];
+    const from = fromId ? history.find(a => a.id === fromId) : history[1];
+
+    if (!to || !from) {
+      figma.ui.postMessage({ type: 'analysis-diff', frameId, diff: null });
+      return;
+    }
+
+    figma.ui.postMessage({
+      type: 'analysis-diff',
+      frameId,
+      from: { id: from.id, analyzedAt: from.analyzed_at },
+      to: { id: to.id, analyzedAt: to.analyzed_at },
+      diff: diffAnalyses(from, to)
+    });
+  } catch (error) {
+    console.error('Failed to diff analyses:', error);
+  }
+}
+
+function groupIssuesByElement(issues: AccessibilityIssue[]) {
+  const grouped: { [key: string]: (AccessibilityIssue & { ruleId: string })[] } = {};
+  
+  issues.forEach(issue => {
+    const key = issue.elementId;
+    if (!grouped[key]) {
+      grouped[key] = [];
+    }
+    grouped[key].push({ ...issue, fingerprint: getIssueFingerprint(issue), ruleId: getIssueRuleId(issue) });
+  });
+  
+  return Object.entries(grouped).map(([key, issues]) => ({
+    elementName: issues[0].elementName,
+    elementId: issues[0].elementId,
+    issues: issues
+  }));
+}
+
+const FIX_JOURNAL_KEY = 'a11y-fix-journal';
+const MAX_JOURNAL_ENTRIES = 500;
+
+type FixProperty = 'fills' | 'strokes' | 'letterSpacing' | 'lineHeight' | 'paragraphSpacing' | 'size';
+
+interface FixTarget {
+  nodeId: string;
+  property: FixProperty;
+  range?: { start: number; end: number };
+  // Which paint of fills/strokes the fix changes, for the preview
+  paintIndex?: number;
 }
 
-function checkTextSpacing(textNode: TextNode) {
-  try {
-    const fontSize = textNode.fontSize as number;
-    const letterSpacing = textNode.letterSpacing as LetterSpacing;
-    
-    let currentSpacing = 0;
-    if (letterSpacing.unit === 'PIXELS') {
-      currentSpacing = letterSpacing.value;
-    } else if (letterSpacing.unit === 'PERCENT') {
-      currentSpacing = (letterSpacing.value / 100) * fontSize;
-    }
+interface FixJournalEntry extends FixTarget {
+  id: string;
+  nodeName: string;
+  before: any;
+  after: any;
+  timestamp: number;
+  sessionId: string;
+  issueFingerprint: string;
+  issueType: string;
+  reverted?: boolean;
+}
 
-    const requiredSpacing = fontSize * 0.12;
-    const bounds = textNode.absoluteBoundingBox;
+function getIssueFixer(issue: AccessibilityIssue, fix: any): RuleFixer | undefined {
+  const rule = getIssueRule(issue);
+  return rule && rule.fixers && fix ? rule.fixers[fix.type] : undefined;
+}
 
-    if (currentSpacing < requiredSpacing) {
-      currentIssues.push({
-        elementId: textNode.id,
-        elementName: textNode.name,
-        issueType: 'Text Spacing',
-        severity: 'fail',
-        wcagLevel: 'AA',
-        currentValue: `${currentSpacing.toFixed(1)}px`,
-        requiredValue: `${requiredSpacing.toFixed(1)}px (0.12em)`,
-        suggestion: `Increase letter spacing to ${requiredSpacing.toFixed(1)}px`,
-        suggestedFix: { type: 'letterSpacing', value: requiredSpacing },
-        bounds: bounds ? { x: bounds.x, y: bounds.y, width: bounds.width, height: bounds.height } : undefined
-      });
+function getFixTarget(node: BaseNode, fix: any, issue: AccessibilityIssue): FixTarget | null {
+  const fixer = getIssueFixer(issue, fix);
+  return fixer ? fixer.target(node, fix, issue) : null;
+}
+
+// Mixed values can't be serialised, so they read as null and can't be reverted
+function orNull<T>(value: T | PluginAPI['mixed']): T | null {
+  return value === figma.mixed ? null : value as T;
+}
+
+function readFixProperty(node: SceneNode, target: FixTarget): any {
+  const range = target.range;
+
+  if (node.type === 'TEXT' && range) {
+    switch (target.property) {
+      case 'fills':
+        return {
+          fills: orNull(node.getRangeFills(range.start, range.end)),
+          fillStyleId: orNull(node.getRangeFillStyleId(range.start, range.end))
+        };
+      case 'letterSpacing':
+        return orNull(node.getRangeLetterSpacing(range.start, range.end));
+      case 'lineHeight':
+        return orNull(node.getRangeLineHeight(range.start, range.end));
     }
-  } catch (error) {
-    console.error('Error checking text spacing:', textNode.name, error);
+  }
+
+  switch (target.property) {
+    case 'fills':
+      return 'fills' in node ? { fills: orNull(node.fills), fillStyleId: orNull(node.fillStyleId) } : null;
+    case 'strokes':
+      return 'strokes' in node ? { strokes: node.strokes, strokeStyleId: node.strokeStyleId } : null;
+    case 'letterSpacing':
+      return node.type === 'TEXT' ? orNull(node.letterSpacing) : null;
+    case 'lineHeight':
+      return node.type === 'TEXT' ? orNull(node.lineHeight) : null;
+    case 'paragraphSpacing':
+      return node.type === 'TEXT' ? node.paragraphSpacing : null;
+    case 'size':
+      return { width: node.width, height: node.height };
   }
 }
 
-function checkLineHeight(textNode: TextNode) {
-  try {
-    const fontSize = textNode.fontSize as number;
-    const lineHeight = textNode.lineHeight as LineHeight;
-    
-    let currentLineHeight = 0;
-    if (lineHeight.unit === 'PIXELS') {
-      currentLineHeight = lineHeight.value;
-    } else if (lineHeight.unit === 'PERCENT') {
-      currentLineHeight = (lineHeight.value / 100) * fontSize;
-    } else {
-      currentLineHeight = fontSize * 1.5;
-    }
+async function writeFixProperty(node: SceneNode, target: FixTarget, value: any): Promise<void> {
+  const range = target.range;
 
-    const requiredLineHeight = fontSize * 1.5;
-    const bounds = textNode.absoluteBoundingBox;
+  if (node.type === 'TEXT') {
+    const start = range ? range.start : 0;
+    const end = range ? range.end : node.characters.length;
+    for (const fontName of node.getRangeAllFontNames(start, end)) {
+      await figma.loadFontAsync(fontName);
+    }
+  }
 
-    if (currentLineHeight < requiredLineHeight) {
-      currentIssues.push({
-        elementId: textNode.id,
-        elementName: textNode.name,
-        issueType: 'Line Height',
-        severity: 'fail',
-        wcagLevel: 'AA',
-        currentValue: `${currentLineHeight.toFixed(1)}px`,
-        requiredValue: `${requiredLineHeight.toFixed(1)}px (1.5x)`,
-        suggestion: `Increase line height to ${requiredLineHeight.toFixed(1)}px`,
-        suggestedFix: { type: 'lineHeight', value: requiredLineHeight },
-        bounds: bounds ? { x: bounds.x, y: bounds.y, width: bounds.width, height: bounds.height } : undefined
-      });
+  if (target.property === 'fills') {
+    if (node.type === 'TEXT' && range) {
+      if (value.fillStyleId) await node.setRangeFillStyleIdAsync(range.start, range.end, value.fillStyleId);
+      else node.setRangeFills(range.start, range.end, value.fills);
+    } else if ('fills' in node) {
+      if (value.fillStyleId) await node.setFillStyleIdAsync(value.fillStyleId);
+      else node.fills = value.fills;
     }
-  } catch (error) {
-    console.error('Error checking line height:', textNode.name, error);
+  } else if (target.property === 'strokes' && 'strokes' in node) {
+    if (value.strokeStyleId) await node.setStrokeStyleIdAsync(value.strokeStyleId);
+    else node.strokes = value.strokes;
+  } else if (target.property === 'letterSpacing' && node.type === 'TEXT') {
+    if (range) node.setRangeLetterSpacing(range.start, range.end, value);
+    else node.letterSpacing = value;
+  } else if (target.property === 'lineHeight' && node.type === 'TEXT') {
+    if (range) node.setRangeLineHeight(range.start, range.end, value);
+    else node.lineHeight = value;
+  } else if (target.property === 'paragraphSpacing' && node.type === 'TEXT') {
+    node.paragraphSpacing = value;
+  } else if (target.property === 'size' && 'resize' in node) {
+    node.resize(value.width, value.height);
+  } else {
+    throw new Error(`Cannot write ${target.property} on ${node.type}`);
   }
 }
 
-function checkParagraphSpacing(textNode: TextNode) {
-  try {
-    const fontSize = textNode.fontSize as number;
-    const paragraphSpacing = textNode.paragraphSpacing;
-    const requiredSpacing = fontSize * 2.0;
-    const bounds = textNode.absoluteBoundingBox;
+function loadFixJournal(): FixJournalEntry[] {
+  const data = figma.root.getPluginData(FIX_JOURNAL_KEY);
+  if (!data) return [];
 
-    if (paragraphSpacing < requiredSpacing) {
-      currentIssues.push({
-        elementId: textNode.id,
-        elementName: textNode.name,
-        issueType: 'Paragraph Spacing',
-        severity: 'fail',
-        wcagLevel: 'AA',
-        currentValue: `${paragraphSpacing.toFixed(1)}px`,
-        requiredValue: `${requiredSpacing.toFixed(1)}px (2.0x)`,
-        suggestion: `Increase paragraph spacing to ${requiredSpacing.toFixed(1)}px`,
-        suggestedFix: { type: 'paragraphSpacing', value: requiredSpacing },
-        bounds: bounds ? { x: bounds.x, y: bounds.y, width: bounds.width, height: bounds.height } : undefined
-      });
-    }
+  try {
+    return JSON.parse(data);
   } catch (error) {
-    console.error('Error checking paragraph spacing:', textNode.name, error);
+    console.error('Failed to parse fix journal:', error);
+    return [];
   }
 }
 
-function checkNonTextContrast(node: SceneNode) {
-  const fills = 'fills' in node ? node.fills : [];
-  if (Array.isArray(fills) && fills.length > 0) {
-    const fill = fills[0];
-    if (fill.type === 'SOLID') {
-      const bgColor = getBackgroundColor(node);
-      if (bgColor) {
-        const ratio = getContrastRatio(fill.color, bgColor);
-        const bounds = 'absoluteBoundingBox' in node ? node.absoluteBoundingBox : null;
-        if (ratio < 3.0) {
-          currentIssues.push({
-            elementId: node.id,
-            elementName: node.name,
-            issueType: 'Non-text Contrast',
-            severity: 'fail',
-            wcagLevel: 'AA',
-            currentValue: `${ratio.toFixed(2)}:1`,
-            requiredValue: `3.0:1`,
-            suggestion: `Increase contrast between element and background`,
-            suggestedFix: { type: 'fillColor', value: fill.color },
-            bounds: bounds ? { x: bounds.x, y: bounds.y, width: bounds.width, height: bounds.height } : undefined
-          });
-        }
-      }
-    }
-  }
+function saveFixJournal(entries: FixJournalEntry[]): void {
+  figma.root.setPluginData(FIX_JOURNAL_KEY, JSON.stringify(entries.slice(-MAX_JOURNAL_ENTRIES)));
 }
 
-async function createOverlayFrame(targetFrame: FrameNode, issues: AccessibilityIssue[]) {
-  const frameBounds = targetFrame.absoluteBoundingBox;
-  if (!frameBounds) return;
+function recordFix(target: FixTarget, node: SceneNode, before: any, issue: AccessibilityIssue): void {
+  const entries = loadFixJournal();
 
-  console.log('Creating overlay for', issues.length, 'issues');
+  entries.push({
+    ...target,
+    id: `${Date.now().toString(36)}-${entries.length}`,
+    nodeName: node.name,
+    before: before,
+    after: readFixProperty(node, target),
+    timestamp: Date.now(),
+    sessionId: journalSessionId,
+    issueFingerprint: getIssueFingerprint(issue),
+    issueType: issue.issueType
+  });
 
-  // Clear any existing overlays first
-  clearOverlays();
+  saveFixJournal(entries);
+}
 
-  overlayFrame = figma.createFrame();
-  overlayFrame.name = '🔍 A11Y Overlay';
-  overlayFrame.resize(frameBounds.width, frameBounds.height);
-  overlayFrame.x = frameBounds.x;
-  overlayFrame.y = frameBounds.y;
-  overlayFrame.fills = [];
-  overlayFrame.locked = true;
-  overlayFrame.opacity = 1;
+async function revertFixEntry(entry: FixJournalEntry): Promise<string | null> {
+  const node = figma.getNodeById(entry.nodeId);
+  if (!node || !('visible' in node)) return 'layer no longer exists';
+  if (entry.before === null) return 'original value was mixed';
 
-  if (targetFrame.parent && 'insertChild' in targetFrame.parent) {
-    const targetIndex = targetFrame.parent.children.indexOf(targetFrame);
-    targetFrame.parent.insertChild(targetIndex + 1, overlayFrame);
-  }
+  // Don't clobber edits made after the fix was applied
+  const current = readFixProperty(node as SceneNode, entry);
+  if (JSON.stringify(current) !== JSON.stringify(entry.after)) return 'changed since the fix was applied';
 
-  // Load font once for all labels
-  try {
-    await figma.loadFontAsync({ family: 'Inter', style: 'Regular' });
-  } catch (error) {
-    console.error('Failed to load font for overlay labels:', error);
-    // Try fallback fonts
+  await writeFixProperty(node as SceneNode, entry, entry.before);
+  return null;
+}
+
+async function revertFixes(entryIds: string[]): Promise<void> {
+  const entries = loadFixJournal();
+  const reverted: string[] = [];
+  const skipped: { nodeName: string; reason: string }[] = [];
+
+  // Newest first, so stacked fixes on the same property unwind in order
+  const toRevert = entries
+    .filter(entry => entryIds.includes(entry.id) && !entry.reverted)
+    .sort((a, b) => b.timestamp - a.timestamp);
+
+  for (const entry of toRevert) {
     try {
-      await figma.loadFontAsync({ family: 'Roboto', style: 'Regular' });
-    } catch (fallbackError) {
-      try {
-        await figma.loadFontAsync({ family: 'Arial', style: 'Regular' });
-      } catch (finalError) {
-        console.error('All fonts failed, overlay will have no labels');
-        figma.notify('⚠ Overlay created but labels failed to load');
+      const reason = await revertFixEntry(entry);
+      if (reason) {
+        skipped.push({ nodeName: entry.nodeName, reason });
+      } else {
+        entry.reverted = true;
+        reverted.push(entry.id);
       }
+    } catch (error) {
+      skipped.push({ nodeName: entry.nodeName, reason: String(error) });
     }
   }
 
-  // Create highlight boxes for each issue
-  let createdCount = 0;
-  for (const issue of issues) {
-    if (issue.bounds && overlayFrame) {
-      try {
-        const box = figma.createRectangle();
-        box.name = `Issue: ${issue.issueType}`;
+  saveFixJournal(entries);
+  figma.ui.postMessage({ type: 'fixes-reverted', reverted: reverted.length, skipped });
+  postFixJournal();
+}
 
-        box.x = issue.bounds.x - frameBounds.x;
-        box.y = issue.bounds.y - frameBounds.y;
-        box.resize(issue.bounds.width, issue.bounds.height);
+function postFixJournal(): void {
+  const entries = loadFixJournal();
+  figma.ui.postMessage({
+    type: 'fix-journal',
+    sessionId: journalSessionId,
+    entries: entries.slice().reverse()
+  });
+}
 
-        const color = issue.severity === 'fail'
-          ? { r: 0.95, g: 0.26, b: 0.21 }
-          : { r: 1, g: 0.76, b: 0.03 };
+// Binds one solid paint to a colour variable, keeping its opacity and blend mode
+function bindPaintVariable(paints: ReadonlyArray<Paint>, paintIndex: number, variable: Variable): Paint[] {
+  return paints.map((paint, index) => {
+    if (index !== paintIndex || paint.type !== 'SOLID') return paint;
+    return figma.variables.setBoundVariableForPaint(paint, 'color', variable);
+  });
+}
 
-        box.fills = [];
-        box.strokes = [{ type: 'SOLID', color }];
-        box.strokeWeight = 3;
-        box.dashPattern = [8, 4];
-        box.opacity = 0.9;
+// Swaps the colour of one solid paint, dropping any variable binding that would override it.
+// Fixes on bound paints suggest a passing variable instead; this is the detaching alternative.
+function replacePaintColor(paints: ReadonlyArray<Paint>, paintIndex: number, color: RGB): Paint[] {
+  return paints.map((paint, index) => {
+    if (index !== paintIndex || paint.type !== 'SOLID') return paint;
+    const { boundVariables, ...rest } = paint;
+    return { ...rest, color };
+  });
+}
 
-        overlayFrame.appendChild(box);
+interface FixPreviewItem {
+  fingerprint: string;
+  elementId: string;
+  elementName: string;
+  issueType: string;
+  severity: 'fail' | 'warning';
+  property: FixProperty;
+  range?: string;
+  oldValue: string;
+  newValue: string;
+}
 
-        // Try to add label (may fail if font loading failed)
-        try {
-          const label = figma.createText();
-          label.characters = issue.severity === 'fail' ? '✕' : '⚠';
-          label.fontSize = 16;
-          label.fills = [{ type: 'SOLID', color }];
-          label.x = box.x - 12;
-          label.y = box.y - 22;
-          overlayFrame.appendChild(label);
-        } catch (labelError) {
-          console.warn('Failed to create label:', labelError);
-        }
+interface FixResult {
+  fingerprint: string;
+  elementName: string;
+  success: boolean;
+  reason?: string;
+}
 
-        createdCount++;
-      } catch (error) {
-        console.error('Failed to create overlay element:', error);
-      }
-    }
-  }
+interface FixFilter {
+  kind: 'all' | 'issueType' | 'severity' | 'selection';
+  value?: string;
+}
 
-  console.log('Overlay created with', createdCount, 'elements');
-  figma.notify(`✓ Overlay created with ${createdCount} highlighted issues!`);
+function isLocked(node: BaseNode): boolean {
+  let current: BaseNode | null = node;
+  while (current && current.type !== 'PAGE') {
+    if ('locked' in current && current.locked) return true;
+    current = current.parent;
+  }
+  return false;
 }
 
-function clearOverlays() {
-  try {
-    // Clear the tracked overlay frame
-    if (overlayFrame) {
-      try {
-        overlayFrame.remove();
-      } catch (error) {
-        console.warn('Failed to remove tracked overlay:', error);
-      }
-      overlayFrame = null;
-    }
+function isWithinSelection(node: BaseNode, selectedIds: Set<string>): boolean {
+  let current: BaseNode | null = node;
+  while (current && current.type !== 'PAGE') {
+    if (selectedIds.has(current.id)) return true;
+    current = current.parent;
+  }
+  return false;
+}
 
-    // Find and remove any orphaned overlays
-    const orphanedOverlays = figma.currentPage.findAll(node => node.name === '🔍 A11Y Overlay');
-    console.log('Found', orphanedOverlays.length, 'orphaned overlays to clean up');
+// Figma's own errors are terse, so map the common ones onto something a designer can act on
+function describeFixError(error: any): string {
+  const message = error instanceof Error ? error.message : String(error);
+  if (/instance/i.test(message)) return 'Instance override not allowed';
+  return message;
+}
 
-    orphanedOverlays.forEach(node => {
-      try {
-        // Check if node still exists in the document before removing
-        if (node && node.parent) {
-          node.remove();
-        }
-      } catch (error) {
-        console.warn('Failed to remove orphaned overlay:', error);
-        // Node might have already been deleted, continue
-      }
-    });
+function formatPaintValue(paints: ReadonlyArray<Paint> | null, index?: number): string {
+  if (!paints) return 'Mixed';
+  const paint = index !== undefined ? paints[index] : getSolidFill(paints);
+  if (!paint) return 'None';
+  return paint.type === 'SOLID' ? rgbToHex(paint.color) : paint.type.toLowerCase().replace(/_/g, ' ');
+}
 
-    console.log('Overlays cleared successfully');
-  } catch (error) {
-    console.error('Error in clearOverlays:', error);
+function formatFixValue(target: FixTarget, value: any): string {
+  if (value === null) return 'Mixed';
+
+  switch (target.property) {
+    case 'fills':
+      return formatPaintValue(value.fills, target.paintIndex);
+    case 'strokes':
+      return formatPaintValue(value.strokes, target.paintIndex);
+    case 'letterSpacing':
+    case 'lineHeight':
+      if (value.unit === 'AUTO') return 'Auto';
+      return `${Math.round(value.value * 100) / 100}${value.unit === 'PIXELS' ? 'px' : '%'}`;
+    case 'paragraphSpacing':
+      return `${value}px`;
+    case 'size':
+      return `${Math.round(value.width)}×${Math.round(value.height)}`;
   }
 }
 
-function getTextColor(node: TextNode): RGB | null {
-  const fills = node.fills;
-  if (Array.isArray(fills) && fills.length > 0) {
-    const fill = fills[0];
-    if (fill.type === 'SOLID') {
-      return fill.color;
-    }
-  }
-  return null;
+function describeFixValue(issue: AccessibilityIssue, fix: any): string {
+  const fixer = getIssueFixer(issue, fix);
+  return fixer ? fixer.describe(fix) : String(fix.value);
 }
 
-function getBackgroundColor(node: SceneNode): RGB | null {
-  let parent = node.parent;
-  while (parent) {
-    if ('fills' in parent) {
-      const fills = parent.fills;
-      if (Array.isArray(fills) && fills.length > 0) {
-        const fill = fills[0];
-        if (fill.type === 'SOLID') {
-          return fill.color;
-        }
-      }
+function matchesFixFilter(issue: AccessibilityIssue, filter: FixFilter, selectedIds: Set<string>): boolean {
+  switch (filter.kind) {
+    case 'issueType':
+      return issue.issueType === filter.value;
+    case 'severity':
+      return issue.severity === filter.value;
+    case 'selection': {
+      const node = figma.getNodeById(issue.elementId);
+      return !!node && isWithinSelection(node, selectedIds);
     }
-    parent = parent.parent;
+    default:
+      return true;
   }
-  return { r: 1, g: 1, b: 1 };
 }
 
-function getContrastRatio(color1: RGB, color2: RGB): number {
-  const l1 = getLuminance(color1);
-  const l2 = getLuminance(color2);
-  const lighter = Math.max(l1, l2);
-  const darker = Math.min(l1, l2);
-  return (lighter + 0.05) / (darker + 0.05);
-}
+function buildFixPreview(filter: FixFilter): FixPreviewItem[] {
+  const selectedIds = new Set(figma.currentPage.selection.map(node => node.id));
+  const items: FixPreviewItem[] = [];
+  const seenTargets = new Set<string>();
+
+  // Fails first, so an AA fix wins over an AAA one touching the same property
+  const candidates = currentIssues
+    .filter(issue => issue.suggestedFix && !issue.waiver && matchesFixFilter(issue, filter, selectedIds))
+    .sort((a, b) => Number(a.severity === 'warning') - Number(b.severity === 'warning'));
+
+  for (const issue of candidates) {
+    const node = figma.getNodeById(issue.elementId);
+    if (!node) continue;
+
+    const target = getFixTarget(node, issue.suggestedFix, issue);
+    if (!target) continue;
+
+    const rangeKey = target.range ? `${target.range.start}-${target.range.end}` : '';
+    const targetKey = `${target.nodeId}:${target.property}:${rangeKey}`;
+    if (seenTargets.has(targetKey)) continue;
+    seenTargets.add(targetKey);
+
+    const targetNode = figma.getNodeById(target.nodeId) as SceneNode | null;
+    if (!targetNode) continue;
+
+    items.push({
+      fingerprint: getIssueFingerprint(issue),
+      elementId: issue.elementId,
+      elementName: targetNode.id === node.id ? issue.elementName : `${targetNode.name} (behind ${issue.elementName})`,
+      issueType: issue.issueType,
+      severity: issue.severity,
+      property: target.property,
+      range: issue.textRange ? issue.textRange.text : undefined,
+      oldValue: formatFixValue(target, readFixProperty(targetNode, target)),
+      newValue: describeFixValue(issue, issue.suggestedFix)
+    });
+  }
 
-function getLuminance(color: RGB): number {
-  const r = color.r <= 0.03928 ? color.r / 12.92 : Math.pow((color.r + 0.055) / 1.055, 2.4);
-  const g = color.g <= 0.03928 ? color.g / 12.92 : Math.pow((color.g + 0.055) / 1.055, 2.4);
-  const b = color.b <= 0.03928 ? color.b / 12.92 : Math.pow((color.b + 0.055) / 1.055, 2.4);
-  return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+  return items;
 }
 
-function calculateBetterColor(textColor: RGB, bgColor: RGB, targetRatio: number): RGB {
-  const bgLum = getLuminance(bgColor);
-  const textLum = getLuminance(textColor);
-  
-  if (textLum > bgLum) {
-    return adjustColorToRatio(textColor, bgColor, targetRatio, 'lighter');
-  } else {
-    return adjustColorToRatio(textColor, bgColor, targetRatio, 'darker');
+async function applyIssueFix(issue: AccessibilityIssue, fix: any): Promise<void> {
+  const node = figma.getNodeById(issue.elementId);
+
+  if (!node || node.removed) {
+    throw new Error('Element not found');
   }
-}
 
-function adjustColorToRatio(color: RGB, bg: RGB, targetRatio: number, direction: 'lighter' | 'darker'): RGB {
-  let newColor = { ...color };
-  const step = direction === 'darker' ? -0.05 : 0.05;
-  
-  for (let i = 0; i < 20; i++) {
-    newColor.r = Math.max(0, Math.min(1, newColor.r + step));
-    newColor.g = Math.max(0, Math.min(1, newColor.g + step));
-    newColor.b = Math.max(0, Math.min(1, newColor.b + step));
-    
-    if (getContrastRatio(newColor, bg) >= targetRatio) {
-      return newColor;
+  const target = getFixTarget(node, fix, issue);
+  const targetNode = target ? figma.getNodeById(target.nodeId) as SceneNode | null : null;
+
+  if (isLocked(targetNode || node)) {
+    throw new Error('Layer is locked');
+  }
+
+  if (node.type === 'TEXT') {
+    const start = issue.textRange ? issue.textRange.start : 0;
+    const end = issue.textRange ? issue.textRange.end : node.characters.length;
+
+    for (const fontName of node.getRangeAllFontNames(start, end)) {
+      try {
+        await figma.loadFontAsync(fontName);
+      } catch (error) {
+        throw new Error(`Missing font ${fontName.family} ${fontName.style}`);
+      }
     }
   }
-  
-  return newColor;
-}
 
-function rgbToHex(color: RGB): string {
-  const r = Math.round(color.r * 255);
-  const g = Math.round(color.g * 255);
-  const b = Math.round(color.b * 255);
-  return `#${r.toString(16).padStart(2, '0')}${g.toString(16).padStart(2, '0')}${b.toString(16).padStart(2, '0')}`;
-}
+  const before = target && targetNode ? readFixProperty(targetNode, target) : null;
 
-function groupIssuesByElement(issues: AccessibilityIssue[]) {
-  const grouped: { [key: string]: AccessibilityIssue[] } = {};
-  
-  issues.forEach((issue, index) => {
-    const key = `${issue.elementName}_${issue.elementId}`;
-    if (!grouped[key]) {
-      grouped[key] = [];
+  const fixer = getIssueFixer(issue, fix);
+
+  try {
+    if (!fixer) {
+      throw new Error(`Cannot apply ${fix.type} fix to ${node.type}`);
     }
-    grouped[key].push({ ...issue, index } as any);
-  });
-  
-  return Object.entries(grouped).map(([key, issues]) => ({
-    elementName: issues[0].elementName,
-    elementId: issues[0].elementId,
-    issues: issues
-  }));
+    await fixer.apply(node as SceneNode, fix, issue);
+  } catch (error) {
+    throw new Error(describeFixError(error));
+  }
+
+  if (target && targetNode) {
+    recordFix(target, targetNode, before, issue);
+  }
 }
 
-async function applyFix(issueIndex: number, fix: any) {
-  const issue = currentIssues[issueIndex];
-  const node = figma.getNodeById(issue.elementId);
-  
-  if (!node) {
-    figma.ui.postMessage({ type: 'error', message: 'Element not found' });
+async function applyFix(fingerprint: string, fix: any) {
+  const issue = findIssue(fingerprint);
+  if (!issue) {
+    figma.ui.postMessage({ type: 'error', message: 'Issue not found. Re-analyze and try again.' });
     return;
   }
 
   try {
-    if (fix.type === 'textColor' && node.type === 'TEXT') {
-      await figma.loadFontAsync(node.fontName as FontName);
-      node.fills = [{ type: 'SOLID', color: fix.value }];
-    } else if (fix.type === 'letterSpacing' && node.type === 'TEXT') {
-      await figma.loadFontAsync(node.fontName as FontName);
-      node.letterSpacing = { value: fix.value, unit: 'PIXELS' };
-    } else if (fix.type === 'lineHeight' && node.type === 'TEXT') {
-      await figma.loadFontAsync(node.fontName as FontName);
-      node.lineHeight = { value: fix.value, unit: 'PIXELS' };
-    } else if (fix.type === 'paragraphSpacing' && node.type === 'TEXT') {
-      await figma.loadFontAsync(node.fontName as FontName);
-      node.paragraphSpacing = fix.value;
-    }
-
+    await applyIssueFix(issue, fix);
     figma.ui.postMessage({ type: 'fix-applied', message: 'Fix applied successfully!' });
+    postFixJournal();
   } catch (error) {
-    figma.ui.postMessage({ type: 'error', message: 'Failed to apply fix' });
+    figma.ui.postMessage({ type: 'error', message: 'Failed to apply fix: ' + describeFixError(error) });
+  }
+}
+
+async function applyFixes(fingerprints: string[]) {
+  const results: FixResult[] = [];
+
+  for (const fingerprint of fingerprints) {
+    const issue = findIssue(fingerprint);
+    if (!issue || !issue.suggestedFix) continue;
+
+    try {
+      await applyIssueFix(issue, issue.suggestedFix);
+      results.push({ fingerprint, elementName: issue.elementName, success: true });
+    } catch (error) {
+      results.push({ fingerprint, elementName: issue.elementName, success: false, reason: describeFixError(error) });
+    }
   }
-}
\ No newline at end of file
+
+  figma.commitUndo();
+  figma.ui.postMessage({ type: 'fixes-applied', results });
+  postFixJournal();
+}
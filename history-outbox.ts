@@ -0,0 +1,330 @@
+import {
+  HistoryStore,
+  HistoryStoreKind,
+  HistoryWrite,
+  HistoryWriteTarget,
+  createIdempotencyKey,
+  AnalysisRecord,
+  StoredAnalysis,
+  WaiverRecord,
+  LatestAnalysis,
+  FrameChange,
+  FileOverviewEntry
+} from './history-store';
+
+interface OutboxEntry {
+  key: string;
+  write: HistoryWrite;
+  queuedAt: number;
+  attempts: number;
+  nextAttemptAt: number;
+  lastError: string | null;
+  // Serialised length of the write; analyses carry every issue, so a few are most of the queue
+  size?: number;
+}
+
+const OUTBOX_RETRY = {
+  baseDelay: 5 * 1000,
+  maxDelay: 10 * 60 * 1000,
+  maxAttempts: 25
+};
+
+// Past either limit the oldest writes are dropped so client storage can't fill up;
+// the byte limit leaves room for local history in the same quota
+const OUTBOX_MAX_ENTRIES = 500;
+const OUTBOX_MAX_BYTES = 1024 * 1024;
+
+function getEntrySize(entry: OutboxEntry): number {
+  if (entry.size === undefined) {
+    entry.size = JSON.stringify(entry.write).length;
+  }
+  return entry.size;
+}
+
+// Writes that share a scope must reach the backend in queue order, e.g. a frame's analysis
+// before its change is resolved. Writes with no scope in common don't wait for each other.
+function getWriteScopes(write: HistoryWrite): string[] {
+  switch (write.op) {
+    case 'saveAnalysis':
+      return [`frame:${write.analysis.file_key}/${write.analysis.frame_id}`];
+    case 'detectFrameChange':
+    case 'resolveFrameChanges':
+      return [`frame:${write.fileKey}/${write.frameId}`];
+    case 'saveWaiver':
+      return [`waiver:${write.waiver.file_key}/${write.waiver.node_id}/${write.waiver.issue_key}`];
+    case 'expireWaivers':
+      return write.waivers.map(waiver => `waiver:${write.fileKey}/${waiver.nodeId}/${waiver.issueKey}`);
+    case 'startSession':
+    case 'endSession':
+      return [`session:${write.sessionId}`];
+  }
+}
+
+function getRetryDelay(attempts: number): number {
+  const delay = Math.min(OUTBOX_RETRY.maxDelay, OUTBOX_RETRY.baseDelay * 2 ** (attempts - 1));
+  // Jitter so several open files don't retry in lockstep
+  return delay * (0.5 + Math.random() / 2);
+}
+
+// Sends every write of a remote store through a queue kept in client storage.
+// Writes that fail (offline, backend down, plugin closed mid-request) stay queued
+// and are retried with backoff, on the next launch, or as soon as a read
+// succeeds again. A write that keeps failing only holds back later writes in its
+// own scope, never the whole queue. Each write keeps one idempotency key across
+// retries, so a write that reached the backend before the response was lost is
+// not inserted twice.
+// Use OutboxHistoryStore.open so queued writes are loaded first.
+class OutboxHistoryStore implements HistoryStore {
+  readonly kind: HistoryStoreKind;
+  readonly fileKey: string;
+  private target: HistoryStore & HistoryWriteTarget;
+  private storageKey: string;
+  private entries: OutboxEntry[] = [];
+  private flushing: Promise<void> | null = null;
+  private retryTimer: number | null = null;
+  private closed = false;
+  onPendingChange: ((pending: number, lastError: string | null) => void) | null = null;
+
+  private constructor(target: HistoryStore & HistoryWriteTarget, storageKey: string) {
+    this.kind = target.kind;
+    this.fileKey = target.fileKey;
+    this.target = target;
+    this.storageKey = storageKey;
+  }
+
+  static async open(target: HistoryStore & HistoryWriteTarget, storageKey: string): Promise<OutboxHistoryStore> {
+    const store = new OutboxHistoryStore(target, storageKey);
+    const stored: OutboxEntry[] | undefined = await figma.clientStorage.getAsync(storageKey);
+    store.entries = stored || [];
+    return store;
+  }
+
+  get pendingCount(): number {
+    return this.entries.length;
+  }
+
+  // Stops retrying; queued writes stay stored for the next open
+  close(): void {
+    this.closed = true;
+    if (this.retryTimer !== null) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+  }
+
+  getLatestAnalysis(frameId: string): Promise<LatestAnalysis | null> {
+    return this.read(() => this.target.getLatestAnalysis(frameId));
+  }
+
+  getFrameHistory(frameId: string): Promise<StoredAnalysis[]> {
+    return this.read(() => this.target.getFrameHistory(frameId));
+  }
+
+  getTeamFrameHistory(frameId: string): Promise<StoredAnalysis[]> {
+    return this.read(() => this.target.getTeamFrameHistory(frameId));
+  }
+
+  getFileOverview(): Promise<FileOverviewEntry[]> {
+    return this.read(() => this.target.getFileOverview());
+  }
+
+  getAllAnalyses(limit?: number): Promise<StoredAnalysis[]> {
+    return this.read(() => this.target.getAllAnalyses(limit));
+  }
+
+  getUnresolvedChanges(): Promise<FrameChange[]> {
+    return this.read(() => this.target.getUnresolvedChanges());
+  }
+
+  async saveAnalysis(analysis: AnalysisRecord): Promise<void> {
+    await this.enqueue({
+      op: 'saveAnalysis',
+      analysis: { ...analysis, analyzed_at: analysis.analyzed_at || new Date().toISOString() }
+    });
+  }
+
+  async detectFrameChange(frameId: string, previousHash: string, currentHash: string): Promise<boolean> {
+    if (previousHash === currentHash) {
+      return false;
+    }
+
+    await this.enqueue({
+      op: 'detectFrameChange',
+      fileKey: this.fileKey,
+      frameId,
+      previousHash,
+      currentHash,
+      detectedAt: new Date().toISOString()
+    });
+    return true;
+  }
+
+  async resolveFrameChanges(frameId: string): Promise<void> {
+    await this.enqueue({ op: 'resolveFrameChanges', fileKey: this.fileKey, frameId });
+  }
+
+  async saveWaiver(waiver: WaiverRecord): Promise<void> {
+    await this.enqueue({
+      op: 'saveWaiver',
+      waiver: { ...waiver, created_at: waiver.created_at || new Date().toISOString() }
+    });
+  }
+
+  async expireWaivers(waivers: { nodeId: string; issueKey: string }[]): Promise<void> {
+    await this.enqueue({ op: 'expireWaivers', fileKey: this.fileKey, waivers, expiredAt: new Date().toISOString() });
+  }
+
+  // The session id is known before the backend sees it, so a session can start offline
+  async startSession(): Promise<string> {
+    const sessionId = createIdempotencyKey();
+    await this.enqueue({ op: 'startSession', sessionId, startedAt: new Date().toISOString() }, sessionId);
+    return sessionId;
+  }
+
+  async endSession(sessionId: string, framesAnalyzed: number): Promise<void> {
+    await this.enqueue({
+      op: 'endSession',
+      sessionId,
+      framesAnalyzed,
+      endedAt: new Date().toISOString()
+    });
+  }
+
+  // Sends queued writes in order, skipping those that are backing off and any later
+  // writes in their scope. Never rejects.
+  flush(force: boolean = false): Promise<void> {
+    if (!this.flushing) {
+      this.flushing = this.drain(force).then(
+        () => { this.flushing = null; },
+        error => {
+          this.flushing = null;
+          console.error('Failed to flush history outbox:', error);
+        }
+      );
+    }
+    return this.flushing;
+  }
+
+  private async read<T>(load: () => Promise<T>): Promise<T> {
+    const result = await load();
+
+    // A successful read means the backend is reachable again
+    if (this.entries.length > 0 && !this.flushing) {
+      this.flush(true);
+    }
+
+    return result;
+  }
+
+  private async enqueue(write: HistoryWrite, key: string = createIdempotencyKey()): Promise<void> {
+    this.entries.push({ key, write, queuedAt: Date.now(), attempts: 0, nextAttemptAt: 0, lastError: null });
+    this.trim();
+
+    // Not being able to persist the queue shouldn't lose the write while the backend is reachable
+    try {
+      await this.save();
+    } catch (error) {
+      console.warn('Could not persist history outbox, keeping writes in memory:', error);
+    }
+    this.notify();
+    await this.flush();
+  }
+
+  // The newest write is always kept, however large
+  private trim(): void {
+    let bytes = this.entries.reduce((total, entry) => total + getEntrySize(entry), 0);
+    let dropped = 0;
+
+    while (this.entries.length > 1 && (this.entries.length > OUTBOX_MAX_ENTRIES || bytes > OUTBOX_MAX_BYTES)) {
+      bytes -= getEntrySize(this.entries.shift()!);
+      dropped++;
+    }
+
+    if (dropped > 0) {
+      console.warn('History outbox full, dropped', dropped, 'oldest writes');
+    }
+  }
+
+  // By key: enqueue may have trimmed the queue while the write was in flight
+  private remove(key: string): void {
+    this.entries = this.entries.filter(entry => entry.key !== key);
+  }
+
+  private async drain(force: boolean): Promise<void> {
+    if (this.retryTimer !== null) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+
+    // Entries are looked up by key each time: enqueue may add or trim while a write is in flight
+    const visited = new Set<string>();
+    const blocked = new Set<string>();
+
+    while (!this.closed) {
+      const entry = this.entries.find(e => !visited.has(e.key));
+      if (!entry) break;
+      visited.add(entry.key);
+
+      const scopes = getWriteScopes(entry.write);
+      if (scopes.some(scope => blocked.has(scope)) || (!force && entry.nextAttemptAt > Date.now())) {
+        scopes.forEach(scope => blocked.add(scope));
+        continue;
+      }
+
+      try {
+        await this.target.applyWrite(entry.write, entry.key);
+        this.remove(entry.key);
+      } catch (error) {
+        entry.attempts++;
+        entry.lastError = String(error);
+
+        if (this.target.isPermanentFailure(error) || entry.attempts >= OUTBOX_RETRY.maxAttempts) {
+          console.error(`Dropping history write "${entry.write.op}" after ${entry.attempts} attempts:`, error);
+          this.remove(entry.key);
+        } else {
+          entry.nextAttemptAt = Date.now() + getRetryDelay(entry.attempts);
+          scopes.forEach(scope => blocked.add(scope));
+        }
+      }
+
+      await this.save();
+      this.notify();
+    }
+
+    this.scheduleRetry();
+  }
+
+  private scheduleRetry(): void {
+    if (this.closed || this.entries.length === 0) return;
+
+    // Only the first write in each scope can go next; the rest wait for it whatever their own time
+    const seen = new Set<string>();
+    let nextAttemptAt = Infinity;
+    for (const entry of this.entries) {
+      const scopes = getWriteScopes(entry.write);
+      if (!scopes.some(scope => seen.has(scope))) {
+        nextAttemptAt = Math.min(nextAttemptAt, entry.nextAttemptAt);
+      }
+      scopes.forEach(scope => seen.add(scope));
+    }
+
+    const delay = Math.max(0, nextAttemptAt - Date.now());
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      this.flush();
+    }, delay);
+  }
+
+  private async save(): Promise<void> {
+    await figma.clientStorage.setAsync(this.storageKey, this.entries);
+  }
+
+  private notify(): void {
+    if (this.onPendingChange) {
+      const failing = this.entries.find(entry => entry.lastError !== null);
+      this.onPendingChange(this.entries.length, failing ? failing.lastError : null);
+    }
+  }
+}
+
+export { OutboxHistoryStore };
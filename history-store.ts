@@ -0,0 +1,413 @@
+interface AnalysisRecord {
+  id?: string;
+  // Frame ids repeat across files; the file key tells them apart
+  file_key: string;
+  file_name: string;
+  page_id: string;
+  page_name: string;
+  frame_id: string;
+  frame_name: string;
+  user_id: string;
+  author_name: string;
+  content_hash: string;
+  total_issues: number;
+  fail_count: number;
+  warning_count: number;
+  waived_count?: number;
+  analysis_data: any;
+  plugin_version: string;
+  analyzed_at?: string;
+}
+
+interface StoredAnalysis extends AnalysisRecord {
+  id: string;
+  analyzed_at: string;
+}
+
+interface WaiverRecord {
+  id?: string;
+  file_key: string;
+  frame_id: string;
+  node_id: string;
+  issue_key: string;
+  issue_type: string;
+  reason: string;
+  author: string;
+  property_hash: string;
+  created_at?: string;
+  expired_at?: string | null;
+}
+
+interface LatestAnalysis {
+  id: string;
+  frame_id: string;
+  frame_name: string;
+  content_hash: string;
+  total_issues: number;
+  fail_count: number;
+  warning_count: number;
+  analysis_data: any;
+  analyzed_at: string;
+  has_changes: boolean;
+}
+
+interface FrameChange {
+  id: string;
+  file_key: string;
+  frame_id: string;
+  previous_hash: string;
+  current_hash: string;
+  change_detected_at: string;
+  is_resolved: boolean;
+}
+
+interface FileOverviewEntry {
+  frame_id: string;
+  frame_name: string;
+  page_id: string;
+  page_name: string;
+  analysis_id: string;
+  analyzed_at: string;
+  author_name: string;
+  total_issues: number;
+  fail_count: number;
+  warning_count: number;
+  waived_count: number;
+  audit_count: number;
+  has_changes: boolean;
+}
+
+interface HistorySession {
+  id: string;
+  session_start: string;
+  session_end: string | null;
+  frames_analyzed: number;
+}
+
+type HistoryStoreKind = 'supabase' | 'local' | 'memory';
+
+// A write captured with its own timestamps, so replaying it later records when
+// it happened rather than when it was sent
+type HistoryWrite =
+  | { op: 'saveAnalysis'; analysis: AnalysisRecord & { analyzed_at: string } }
+  | { op: 'detectFrameChange'; fileKey: string; frameId: string; previousHash: string; currentHash: string; detectedAt: string }
+  | { op: 'resolveFrameChanges'; fileKey: string; frameId: string }
+  | { op: 'saveWaiver'; waiver: WaiverRecord & { created_at: string } }
+  | { op: 'expireWaivers'; fileKey: string; waivers: { nodeId: string; issueKey: string }[]; expiredAt: string }
+  | { op: 'startSession'; sessionId: string; startedAt: string }
+  | { op: 'endSession'; sessionId: string; framesAnalyzed: number; endedAt: string };
+
+// A remote store that applies each write at most once per idempotency key
+interface HistoryWriteTarget {
+  applyWrite(write: HistoryWrite, idempotencyKey: string): Promise<void>;
+  // True when retrying can't succeed, e.g. the backend rejected the data itself
+  isPermanentFailure(error: unknown): boolean;
+}
+
+// Everything the plugin needs from wherever analysis history is kept. A store
+// is opened for one file: frame ids are resolved within it and reads return only
+// its records.
+interface HistoryStore {
+  readonly kind: HistoryStoreKind;
+  readonly fileKey: string;
+  saveAnalysis(analysis: AnalysisRecord): Promise<void>;
+  // The current user's latest audit
+  getLatestAnalysis(frameId: string): Promise<LatestAnalysis | null>;
+  // The current user's audits, newest first
+  getFrameHistory(frameId: string): Promise<StoredAnalysis[]>;
+  // Audits by anyone the user shares a workspace with, newest first
+  getTeamFrameHistory(frameId: string): Promise<StoredAnalysis[]>;
+  // Latest audit of each frame in the file, by anyone on the team
+  getFileOverview(): Promise<FileOverviewEntry[]>;
+  getAllAnalyses(limit?: number): Promise<StoredAnalysis[]>;
+  detectFrameChange(frameId: string, previousHash: string, currentHash: string): Promise<boolean>;
+  resolveFrameChanges(frameId: string): Promise<void>;
+  getUnresolvedChanges(): Promise<FrameChange[]>;
+  saveWaiver(waiver: WaiverRecord): Promise<void>;
+  expireWaivers(waivers: { nodeId: string; issueKey: string }[]): Promise<void>;
+  startSession(): Promise<string>;
+  endSession(sessionId: string, framesAnalyzed: number): Promise<void>;
+}
+
+interface HistoryData {
+  analyses: StoredAnalysis[];
+  changes: FrameChange[];
+  sessions: HistorySession[];
+  waivers: WaiverRecord[];
+}
+
+// Client storage has a small per-plugin quota and every analysis carries its issues
+const LOCAL_HISTORY_LIMITS = {
+  analysesPerFrame: 10,
+  analyses: 200,
+  // Serialized size of the kept analyses; client storage is capped at 5 MB per plugin and
+  // also holds the history outbox
+  analysisBytes: 2 * 1024 * 1024,
+  sessions: 20,
+  waivers: 500
+};
+
+// RFC 4122 version 4; the sandbox has no crypto.randomUUID
+function createIdempotencyKey(): string {
+  return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, c => {
+    const r = Math.random() * 16 | 0;
+    return (c === 'x' ? r : (r & 0x3) | 0x8).toString(16);
+  });
+}
+
+function createEmptyHistoryData(): HistoryData {
+  return { analyses: [], changes: [], sessions: [], waivers: [] };
+}
+
+// Keeps history for the lifetime of the plugin run only; used in tests and as a
+// fallback when client storage can't be read
+class MemoryHistoryStore implements HistoryStore {
+  readonly kind: HistoryStoreKind = 'memory';
+  readonly fileKey: string;
+  protected data: HistoryData = createEmptyHistoryData();
+  private nextId = 0;
+
+  constructor(fileKey: string) {
+    this.fileKey = fileKey;
+  }
+
+  // Records from other files share the store but are never returned
+  private fileAnalyses(): StoredAnalysis[] {
+    return this.data.analyses.filter(a => a.file_key === this.fileKey);
+  }
+
+  private hasOpenChanges(frameId: string): boolean {
+    return this.data.changes.some(c => c.file_key === this.fileKey && c.frame_id === frameId && !c.is_resolved);
+  }
+
+  protected createId(prefix: string): string {
+    return `${prefix}-${Date.now().toString(36)}-${(this.nextId++).toString(36)}`;
+  }
+
+  // Called after every write
+  protected async persist(): Promise<void> {}
+
+  async saveAnalysis(analysis: AnalysisRecord): Promise<void> {
+    this.data.analyses.unshift({
+      ...analysis,
+      id: this.createId('analysis'),
+      analyzed_at: new Date().toISOString()
+    });
+    await this.persist();
+  }
+
+  async getLatestAnalysis(frameId: string): Promise<LatestAnalysis | null> {
+    const latest = this.fileAnalyses().find(a => a.frame_id === frameId);
+    if (!latest) {
+      return null;
+    }
+
+    return {
+      id: latest.id,
+      frame_id: latest.frame_id,
+      frame_name: latest.frame_name,
+      content_hash: latest.content_hash,
+      total_issues: latest.total_issues,
+      fail_count: latest.fail_count,
+      warning_count: latest.warning_count,
+      analysis_data: latest.analysis_data,
+      analyzed_at: latest.analyzed_at,
+      has_changes: this.hasOpenChanges(frameId)
+    };
+  }
+
+  async getFrameHistory(frameId: string): Promise<StoredAnalysis[]> {
+    return this.fileAnalyses().filter(a => a.frame_id === frameId);
+  }
+
+  // Nothing is shared from this machine, so the team's history is the user's own
+  async getTeamFrameHistory(frameId: string): Promise<StoredAnalysis[]> {
+    return this.getFrameHistory(frameId);
+  }
+
+  async getFileOverview(): Promise<FileOverviewEntry[]> {
+    const byFrame = new Map<string, StoredAnalysis[]>();
+    for (const analysis of this.fileAnalyses()) {
+      const audits = byFrame.get(analysis.frame_id) || [];
+      audits.push(analysis);
+      byFrame.set(analysis.frame_id, audits);
+    }
+
+    const overview: FileOverviewEntry[] = [];
+    byFrame.forEach((audits, frameId) => {
+      const latest = audits[0];
+      overview.push({
+        frame_id: frameId,
+        frame_name: latest.frame_name,
+        page_id: latest.page_id,
+        page_name: latest.page_name,
+        analysis_id: latest.id,
+        analyzed_at: latest.analyzed_at,
+        author_name: latest.author_name,
+        total_issues: latest.total_issues,
+        fail_count: latest.fail_count,
+        warning_count: latest.warning_count,
+        waived_count: latest.waived_count || 0,
+        audit_count: audits.length,
+        has_changes: this.hasOpenChanges(frameId)
+      });
+    });
+
+    return overview.sort((a, b) => a.page_name.localeCompare(b.page_name) || a.frame_name.localeCompare(b.frame_name));
+  }
+
+  async getAllAnalyses(limit: number = 50): Promise<StoredAnalysis[]> {
+    return this.fileAnalyses().slice(0, limit);
+  }
+
+  async detectFrameChange(frameId: string, previousHash: string, currentHash: string): Promise<boolean> {
+    if (previousHash === currentHash) {
+      return false;
+    }
+
+    this.data.changes.push({
+      id: this.createId('change'),
+      file_key: this.fileKey,
+      frame_id: frameId,
+      previous_hash: previousHash,
+      current_hash: currentHash,
+      change_detected_at: new Date().toISOString(),
+      is_resolved: false
+    });
+    await this.persist();
+    return true;
+  }
+
+  async resolveFrameChanges(frameId: string): Promise<void> {
+    const open = this.data.changes.filter(c => c.file_key === this.fileKey && c.frame_id === frameId && !c.is_resolved);
+    if (open.length === 0) return;
+
+    open.forEach(change => change.is_resolved = true);
+    await this.persist();
+  }
+
+  async getUnresolvedChanges(): Promise<FrameChange[]> {
+    const analysedFrames = new Set(this.fileAnalyses().map(a => a.frame_id));
+    return this.data.changes.filter(c => c.file_key === this.fileKey && !c.is_resolved && analysedFrames.has(c.frame_id));
+  }
+
+  async saveWaiver(waiver: WaiverRecord): Promise<void> {
+    this.data.waivers.push({
+      ...waiver,
+      id: this.createId('waiver'),
+      created_at: new Date().toISOString(),
+      expired_at: null
+    });
+    await this.persist();
+  }
+
+  async expireWaivers(waivers: { nodeId: string; issueKey: string }[]): Promise<void> {
+    const expiredAt = new Date().toISOString();
+    let changed = false;
+
+    for (const { nodeId, issueKey } of waivers) {
+      for (const record of this.data.waivers) {
+        if (record.file_key === this.fileKey && record.node_id === nodeId && record.issue_key === issueKey && !record.expired_at) {
+          record.expired_at = expiredAt;
+          changed = true;
+        }
+      }
+    }
+
+    if (changed) {
+      await this.persist();
+    }
+  }
+
+  async startSession(): Promise<string> {
+    const id = this.createId('session');
+    this.data.sessions.unshift({
+      id,
+      session_start: new Date().toISOString(),
+      session_end: null,
+      frames_analyzed: 0
+    });
+    await this.persist();
+    return id;
+  }
+
+  async endSession(sessionId: string, framesAnalyzed: number): Promise<void> {
+    const session = this.data.sessions.find(s => s.id === sessionId);
+    if (!session) return;
+
+    session.session_end = new Date().toISOString();
+    session.frames_analyzed = framesAnalyzed;
+    await this.persist();
+  }
+}
+
+// Keeps history on this machine only, for teams that can't or won't run a backend.
+// Use ClientStorageHistoryStore.open so stored history is loaded first.
+class ClientStorageHistoryStore extends MemoryHistoryStore {
+  readonly kind: HistoryStoreKind = 'local';
+  private storageKey: string;
+
+  private constructor(storageKey: string, fileKey: string) {
+    super(fileKey);
+    this.storageKey = storageKey;
+  }
+
+  // One storage key holds every file's history, so the per-file limits apply across files
+  static async open(storageKey: string, fileKey: string): Promise<ClientStorageHistoryStore> {
+    const store = new ClientStorageHistoryStore(storageKey, fileKey);
+    const stored: Partial<HistoryData> | undefined = await figma.clientStorage.getAsync(storageKey);
+    if (stored) {
+      store.data = { ...createEmptyHistoryData(), ...stored };
+    }
+    return store;
+  }
+
+  protected async persist(): Promise<void> {
+    this.prune(LOCAL_HISTORY_LIMITS.analysisBytes);
+    try {
+      await figma.clientStorage.setAsync(this.storageKey, this.data);
+    } catch (error) {
+      // Other data shares the quota; shrink once more so later writes don't all fail the same way
+      console.warn('Local history over the storage quota, dropping older analyses:', error);
+      this.prune(LOCAL_HISTORY_LIMITS.analysisBytes / 4);
+      await figma.clientStorage.setAsync(this.storageKey, this.data);
+    }
+  }
+
+  // Newest analyses are kept first; the newest one is always kept, however large
+  private prune(maxBytes: number): void {
+    const frameKey = (fileKey: string, frameId: string) => `${fileKey}/${frameId}`;
+    const perFrame = new Map<string, number>();
+    let bytes = 0;
+    this.data.analyses = this.data.analyses.filter(analysis => {
+      const key = frameKey(analysis.file_key, analysis.frame_id);
+      const count = (perFrame.get(key) || 0) + 1;
+      perFrame.set(key, count);
+      return count <= LOCAL_HISTORY_LIMITS.analysesPerFrame;
+    }).slice(0, LOCAL_HISTORY_LIMITS.analyses).filter((analysis, index) => {
+      bytes += JSON.stringify(analysis).length;
+      return index === 0 || bytes <= maxBytes;
+    });
+
+    const analysedFrames = new Set(this.data.analyses.map(a => frameKey(a.file_key, a.frame_id)));
+    this.data.changes = this.data.changes.filter(c => !c.is_resolved && analysedFrames.has(frameKey(c.file_key, c.frame_id)));
+    this.data.sessions = this.data.sessions.slice(0, LOCAL_HISTORY_LIMITS.sessions);
+    this.data.waivers = this.data.waivers.slice(-LOCAL_HISTORY_LIMITS.waivers);
+  }
+}
+
+export {
+  HistoryStore,
+  HistoryStoreKind,
+  HistoryWrite,
+  HistoryWriteTarget,
+  createIdempotencyKey,
+  MemoryHistoryStore,
+  ClientStorageHistoryStore,
+  AnalysisRecord,
+  StoredAnalysis,
+  WaiverRecord,
+  LatestAnalysis,
+  FrameChange,
+  FileOverviewEntry
+};
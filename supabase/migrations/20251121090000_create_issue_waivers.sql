@@ -0,0 +1,79 @@
+/*
+  # Issue Waivers
+
+  ## Overview
+  Records accepted exceptions for accessibility findings that are intentional
+  (disabled controls, logos, decorative text). Waived issues are still stored in
+  `analysis_data` but no longer count towards pass/fail totals.
+
+  ## New Tables
+
+  ### `issue_waivers`
+  One row per accepted exception on a node.
+
+  **Columns:**
+  - `id` (uuid, primary key) - Unique waiver identifier
+  - `frame_id` (text, indexed) - Figma frame ID the issue was found in
+  - `node_id` (text, indexed) - Figma node ID the waiver is attached to
+  - `issue_key` (text) - Identifies the waived issue on that node
+  - `issue_type` (text) - Rule that produced the issue (e.g. "Color Contrast")
+  - `reason` (text) - Why the finding is accepted
+  - `author` (text) - Who accepted it
+  - `user_id` (text) - User identifier of the writer
+  - `property_hash` (text) - Hash of the node properties the rule looks at
+  - `created_at` (timestamptz) - When the waiver was granted
+  - `expired_at` (timestamptz) - When the waiver lapsed (nullable)
+
+  ## Modified Tables
+
+  ### `frame_analyses`
+  - `waived_count` (integer) - Count of issues excluded from totals by a waiver
+
+  ## Expiry
+  The plugin compares `property_hash` with the node's current properties on every
+  analysis. When they differ the waiver is removed from the node and `expired_at`
+  is set here, so the issue is reported again.
+*/
+
+-- Create issue_waivers table
+CREATE TABLE IF NOT EXISTS issue_waivers (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  frame_id text NOT NULL,
+  node_id text NOT NULL,
+  issue_key text NOT NULL,
+  issue_type text NOT NULL,
+  reason text NOT NULL CHECK (length(trim(reason)) > 0),
+  author text NOT NULL CHECK (length(trim(author)) > 0),
+  user_id text NOT NULL,
+  property_hash text NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  expired_at timestamptz
+);
+
+-- Create indexes for waiver lookups
+CREATE INDEX IF NOT EXISTS idx_issue_waivers_frame_id ON issue_waivers(frame_id);
+CREATE INDEX IF NOT EXISTS idx_issue_waivers_node_key ON issue_waivers(node_id, issue_key);
+CREATE INDEX IF NOT EXISTS idx_issue_waivers_active ON issue_waivers(node_id) WHERE expired_at IS NULL;
+
+-- Track waived issues separately from pass/fail totals
+ALTER TABLE frame_analyses ADD COLUMN IF NOT EXISTS waived_count integer NOT NULL DEFAULT 0;
+
+-- Enable Row Level Security
+ALTER TABLE issue_waivers ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for issue_waivers
+CREATE POLICY "Users can view own waivers"
+  ON issue_waivers FOR SELECT
+  TO authenticated
+  USING (user_id = auth.jwt()->>'sub');
+
+CREATE POLICY "Users can insert own waivers"
+  ON issue_waivers FOR INSERT
+  TO authenticated
+  WITH CHECK (user_id = auth.jwt()->>'sub');
+
+CREATE POLICY "Users can update own waivers"
+  ON issue_waivers FOR UPDATE
+  TO authenticated
+  USING (user_id = auth.jwt()->>'sub')
+  WITH CHECK (user_id = auth.jwt()->>'sub');
@@ -0,0 +1,91 @@
+/*
+  # Authenticated History Access
+
+  ## Overview
+  The plugin now signs in with Supabase Auth (anonymously on first launch, or
+  with an emailed one-time code) and sends the session's access token on every
+  request. `user_id` in every table is the auth user id, i.e. the JWT `sub`
+  the existing RLS policies compare against, so history follows the account
+  rather than a single plugin launch.
+
+  Rows written before this migration used a per-launch id
+  ("figma-user-<timestamp>") and are not reachable by any account.
+
+  ## Modified Tables
+
+  ### `frame_analyses`, `analysis_sessions`, `issue_waivers`
+  - `user_id` defaults to `auth.jwt()->>'sub'`
+
+  ## Modified Functions
+
+  ### `get_latest_analysis(p_frame_id)`
+  Replaces `get_latest_analysis(p_frame_id, p_user_id)`. The caller's user id
+  comes from the JWT instead of a parameter, and the function runs with the
+  caller's privileges so RLS applies.
+
+  ### `detect_frame_change`, `resolve_frame_changes`
+  Now run with the caller's privileges, so they can only record or resolve
+  changes on frames the caller has analysed.
+
+  ## Security
+  All three functions can only be executed by the `authenticated` role.
+*/
+
+-- Default the owner to the signed-in user
+ALTER TABLE frame_analyses ALTER COLUMN user_id SET DEFAULT (auth.jwt()->>'sub');
+ALTER TABLE analysis_sessions ALTER COLUMN user_id SET DEFAULT (auth.jwt()->>'sub');
+ALTER TABLE issue_waivers ALTER COLUMN user_id SET DEFAULT (auth.jwt()->>'sub');
+
+-- Replace get_latest_analysis with a version that reads the user from the JWT
+DROP FUNCTION IF EXISTS get_latest_analysis(text, text);
+
+CREATE OR REPLACE FUNCTION get_latest_analysis(p_frame_id text)
+RETURNS TABLE (
+  id uuid,
+  frame_id text,
+  frame_name text,
+  content_hash text,
+  total_issues integer,
+  fail_count integer,
+  warning_count integer,
+  analysis_data jsonb,
+  analyzed_at timestamptz,
+  has_changes boolean
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    fa.id,
+    fa.frame_id,
+    fa.frame_name,
+    fa.content_hash,
+    fa.total_issues,
+    fa.fail_count,
+    fa.warning_count,
+    fa.analysis_data,
+    fa.analyzed_at,
+    EXISTS(
+      SELECT 1 FROM frame_changes fc
+      WHERE fc.frame_id = fa.frame_id
+      AND fc.is_resolved = false
+    ) as has_changes
+  FROM frame_analyses fa
+  WHERE fa.frame_id = p_frame_id
+  AND fa.user_id = auth.jwt()->>'sub'
+  ORDER BY fa.analyzed_at DESC
+  LIMIT 1;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
+
+-- Let RLS on frame_changes decide which frames a caller may touch
+ALTER FUNCTION detect_frame_change(text, text, text) SECURITY INVOKER;
+ALTER FUNCTION resolve_frame_changes(text) SECURITY INVOKER;
+
+-- Only signed-in users may call the history functions
+REVOKE EXECUTE ON FUNCTION get_latest_analysis(text) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION detect_frame_change(text, text, text) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION resolve_frame_changes(text) FROM PUBLIC, anon;
+
+GRANT EXECUTE ON FUNCTION get_latest_analysis(text) TO authenticated;
+GRANT EXECUTE ON FUNCTION detect_frame_change(text, text, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION resolve_frame_changes(text) TO authenticated;
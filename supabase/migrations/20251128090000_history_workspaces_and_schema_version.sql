@@ -0,0 +1,92 @@
+/*
+  # History Workspaces and Schema Version
+
+  ## Overview
+  The backend is now configured per installation (project URL, anon key and a
+  workspace name) instead of being hard-coded in the plugin. A workspace keeps
+  separate histories apart when one account uses the same project for several
+  clients or products. The plugin's "Test connection" action reads the schema
+  version to tell the user when migrations are missing or newer than the plugin.
+
+  ## Modified Tables
+
+  ### `frame_analyses`, `analysis_sessions`, `issue_waivers`
+  - `workspace` (text, indexed) - Workspace name from the plugin settings;
+    '' for the default workspace and for rows written before this migration
+
+  ## New Functions
+
+  ### `history_schema_version()`
+  Returns the schema version of the history tables. Callable without signing in
+  so the connection can be tested before authenticating.
+
+  ## Modified Functions
+
+  ### `get_latest_analysis(p_frame_id, p_workspace)`
+  Replaces `get_latest_analysis(p_frame_id)`; only analyses from the given
+  workspace are considered.
+
+  ## Schema Version
+  2
+*/
+
+-- Tag every history row with its workspace
+ALTER TABLE frame_analyses ADD COLUMN IF NOT EXISTS workspace text NOT NULL DEFAULT '';
+ALTER TABLE analysis_sessions ADD COLUMN IF NOT EXISTS workspace text NOT NULL DEFAULT '';
+ALTER TABLE issue_waivers ADD COLUMN IF NOT EXISTS workspace text NOT NULL DEFAULT '';
+
+CREATE INDEX IF NOT EXISTS idx_frame_analyses_user_workspace_frame
+  ON frame_analyses(user_id, workspace, frame_id);
+
+-- Report the schema version to the plugin
+CREATE OR REPLACE FUNCTION history_schema_version()
+RETURNS integer AS $$
+  SELECT 2;
+$$ LANGUAGE sql IMMUTABLE;
+
+GRANT EXECUTE ON FUNCTION history_schema_version() TO anon, authenticated;
+
+-- Scope get_latest_analysis to a workspace
+DROP FUNCTION IF EXISTS get_latest_analysis(text);
+
+CREATE OR REPLACE FUNCTION get_latest_analysis(p_frame_id text, p_workspace text DEFAULT '')
+RETURNS TABLE (
+  id uuid,
+  frame_id text,
+  frame_name text,
+  content_hash text,
+  total_issues integer,
+  fail_count integer,
+  warning_count integer,
+  analysis_data jsonb,
+  analyzed_at timestamptz,
+  has_changes boolean
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    fa.id,
+    fa.frame_id,
+    fa.frame_name,
+    fa.content_hash,
+    fa.total_issues,
+    fa.fail_count,
+    fa.warning_count,
+    fa.analysis_data,
+    fa.analyzed_at,
+    EXISTS(
+      SELECT 1 FROM frame_changes fc
+      WHERE fc.frame_id = fa.frame_id
+      AND fc.is_resolved = false
+    ) as has_changes
+  FROM frame_analyses fa
+  WHERE fa.frame_id = p_frame_id
+  AND fa.workspace = p_workspace
+  AND fa.user_id = auth.jwt()->>'sub'
+  ORDER BY fa.analyzed_at DESC
+  LIMIT 1;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
+
+REVOKE EXECUTE ON FUNCTION get_latest_analysis(text, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION get_latest_analysis(text, text) TO authenticated;
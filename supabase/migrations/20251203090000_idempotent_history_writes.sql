@@ -0,0 +1,69 @@
+/*
+  # Idempotent History Writes
+
+  ## Overview
+  The plugin now queues history writes in client storage and retries them with
+  backoff when the backend can't be reached. A retried write may already have
+  been applied (the response was lost, or the plugin closed mid-request), so
+  every insert carries a client-generated idempotency key and duplicates are
+  skipped.
+
+  ## Modified Tables
+
+  ### `frame_analyses`, `frame_changes`, `issue_waivers`
+  - `client_id` (uuid, unique, nullable) - Idempotency key of the write that
+    created the row; null for rows written before this migration
+
+  ### `analysis_sessions`
+  No change: the plugin generates the session `id` itself and uses it as the key.
+
+  ## Modified Functions
+
+  ### `detect_frame_change(p_frame_id, p_previous_hash, p_current_hash, p_detected_at, p_client_id)`
+  Replaces the three-argument version. Records when the change was seen
+  rather than when the queued write arrived, and ignores a repeated `p_client_id`.
+  Still returns whether the hashes differ.
+
+  ### `history_schema_version()`
+  Returns 3.
+*/
+
+-- Idempotency keys for queued inserts
+ALTER TABLE frame_analyses ADD COLUMN IF NOT EXISTS client_id uuid UNIQUE;
+ALTER TABLE frame_changes ADD COLUMN IF NOT EXISTS client_id uuid UNIQUE;
+ALTER TABLE issue_waivers ADD COLUMN IF NOT EXISTS client_id uuid UNIQUE;
+
+-- Replace detect_frame_change with an idempotent version
+DROP FUNCTION IF EXISTS detect_frame_change(text, text, text);
+
+CREATE OR REPLACE FUNCTION detect_frame_change(
+  p_frame_id text,
+  p_previous_hash text,
+  p_current_hash text,
+  p_detected_at timestamptz DEFAULT now(),
+  p_client_id uuid DEFAULT NULL
+)
+RETURNS boolean AS $$
+DECLARE
+  v_has_changed boolean;
+BEGIN
+  v_has_changed := p_previous_hash != p_current_hash;
+
+  IF v_has_changed THEN
+    INSERT INTO frame_changes (frame_id, previous_hash, current_hash, change_detected_at, client_id)
+    VALUES (p_frame_id, p_previous_hash, p_current_hash, p_detected_at, p_client_id)
+    ON CONFLICT (client_id) DO NOTHING;
+  END IF;
+
+  RETURN v_has_changed;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
+
+REVOKE EXECUTE ON FUNCTION detect_frame_change(text, text, text, timestamptz, uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION detect_frame_change(text, text, text, timestamptz, uuid) TO authenticated;
+
+-- Report the new schema version
+CREATE OR REPLACE FUNCTION history_schema_version()
+RETURNS integer AS $$
+  SELECT 3;
+$$ LANGUAGE sql IMMUTABLE;
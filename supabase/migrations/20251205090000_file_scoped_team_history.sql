@@ -0,0 +1,482 @@
+/*
+  # File-Scoped Team History
+
+  ## Overview
+  Frame ids such as "12:34" repeat across Figma files, so every history record
+  now carries the file it came from, plus the page. Workspaces become real
+  teams: members can see each other's audits, waivers and frame changes within
+  the workspace, so the plugin can show every audit of a frame by anyone on the
+  team and an overview of the whole file.
+
+  ## Modified Tables
+
+  ### `frame_analyses`
+  - `file_key` (text, indexed) - Figma file key, or an id the plugin stores in
+    the file when the key is not available; '' for rows written before this migration
+  - `file_name` (text) - File name at the time of the audit
+  - `page_id` (text) - Page the frame is on
+  - `page_name` (text) - Page name at the time of the audit
+  - `author_name` (text) - Figma name of the designer who ran the audit
+
+  ### `frame_changes`
+  - `file_key` (text, indexed) - As above
+  - `workspace` (text) - Workspace of the audit that detected the change; ''
+    for rows written before this migration
+  - `user_id` (text) - Auth user id of the writer; rows in the default
+    workspace belong to them alone. Older rows are backfilled only when exactly
+    one user saved an analysis of the frame with the change's before or after
+    hash; the rest stay NULL and are visible to nobody
+
+  ### `issue_waivers`
+  - `file_key` (text, indexed) - As above
+
+  ## New Tables
+
+  ### `workspaces`
+  One row per team workspace, named in the plugin settings.
+
+  **Columns:**
+  - `name` (text, primary key) - Workspace name
+  - `join_code` (text) - Code a teammate enters to join; visible to members
+  - `created_by` (text) - User id of the creator, who becomes its owner
+  - `created_at` (timestamptz) - When the workspace was created
+
+  ### `workspace_members`
+  **Columns:**
+  - `workspace` (text, references workspaces) - Workspace name
+  - `user_id` (text) - Member's auth user id
+  - `role` (text) - 'owner' or 'member'
+  - `joined_at` (timestamptz) - When the user joined
+
+  ## Security
+  1. Members can read the analyses, waivers and frame changes of their
+     workspaces; rows in the default workspace ('') stay private to their writer
+  2. Writing into a named workspace requires membership (restrictive policies),
+     both on insert and when an update would move a row into another workspace
+  3. Frame changes are matched on workspace (and, in the default workspace, on
+     their writer), not on frame id alone, since frame ids repeat across files
+     and the file key is shared by everyone who opens a file
+  4. Workspaces are created and joined only through `enter_workspace`
+  5. Members can see who else is in their workspaces and can leave them
+
+  ## New Functions
+  - `is_workspace_member(p_workspace)` - Membership check used by the policies
+  - `enter_workspace(p_workspace, p_join_code)` - Creates the workspace (caller
+    becomes owner) or joins it with its code; returns the caller's role, and the
+    join code for owners
+  - `get_frame_audits(p_file_key, p_frame_id, p_workspace, p_limit)` - Every
+    audit of a frame visible to the caller, newest first
+  - `get_file_overview(p_file_key, p_workspace)` - Latest audit of each frame
+    in a file, with audit counts and open changes
+
+  ## Modified Functions
+  - `get_latest_analysis(p_file_key, p_frame_id, p_workspace)` replaces
+    `get_latest_analysis(p_frame_id, p_workspace)`
+  - `detect_frame_change` and `resolve_frame_changes` take `p_file_key` and
+    `p_workspace`
+
+  ## Schema Version
+  4
+*/
+
+-- File identity on every record
+ALTER TABLE frame_analyses ADD COLUMN IF NOT EXISTS file_key text NOT NULL DEFAULT '';
+ALTER TABLE frame_analyses ADD COLUMN IF NOT EXISTS file_name text NOT NULL DEFAULT '';
+ALTER TABLE frame_analyses ADD COLUMN IF NOT EXISTS page_id text NOT NULL DEFAULT '';
+ALTER TABLE frame_analyses ADD COLUMN IF NOT EXISTS page_name text NOT NULL DEFAULT '';
+ALTER TABLE frame_analyses ADD COLUMN IF NOT EXISTS author_name text NOT NULL DEFAULT '';
+ALTER TABLE frame_changes ADD COLUMN IF NOT EXISTS file_key text NOT NULL DEFAULT '';
+ALTER TABLE frame_changes ADD COLUMN IF NOT EXISTS workspace text NOT NULL DEFAULT '';
+ALTER TABLE frame_changes ADD COLUMN IF NOT EXISTS user_id text DEFAULT (auth.jwt()->>'sub');
+ALTER TABLE issue_waivers ADD COLUMN IF NOT EXISTS file_key text NOT NULL DEFAULT '';
+
+CREATE INDEX IF NOT EXISTS idx_frame_analyses_workspace_file_frame
+  ON frame_analyses(workspace, file_key, frame_id, analyzed_at DESC);
+CREATE INDEX IF NOT EXISTS idx_frame_changes_workspace_file_frame
+  ON frame_changes(workspace, file_key, frame_id) WHERE is_resolved = false;
+
+-- Older changes had no owner. Frame ids repeat across files, so a change only goes to a
+-- user whose own analysis of that frame has the change's before or after hash, and only
+-- when that user is the only match; ambiguous changes keep a NULL owner
+UPDATE frame_changes fc
+SET user_id = owners.user_id
+FROM (
+  SELECT c.id, min(fa.user_id) AS user_id
+  FROM frame_changes c
+  JOIN frame_analyses fa
+    ON fa.frame_id = c.frame_id
+    AND fa.content_hash IN (c.previous_hash, c.current_hash)
+  WHERE c.user_id IS NULL
+  GROUP BY c.id
+  HAVING count(DISTINCT fa.user_id) = 1
+) owners
+WHERE fc.id = owners.id;
+
+CREATE INDEX IF NOT EXISTS idx_issue_waivers_file_node ON issue_waivers(file_key, node_id);
+
+-- Create workspaces table
+CREATE TABLE IF NOT EXISTS workspaces (
+  name text PRIMARY KEY CHECK (length(trim(name)) > 0),
+  join_code text NOT NULL DEFAULT substr(replace(gen_random_uuid()::text, '-', ''), 1, 12),
+  created_by text NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- Create workspace_members table
+CREATE TABLE IF NOT EXISTS workspace_members (
+  workspace text NOT NULL REFERENCES workspaces(name) ON DELETE CASCADE,
+  user_id text NOT NULL,
+  role text NOT NULL DEFAULT 'member' CHECK (role IN ('owner', 'member')),
+  joined_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (workspace, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_workspace_members_user_id ON workspace_members(user_id);
+
+-- Enable Row Level Security
+ALTER TABLE workspaces ENABLE ROW LEVEL SECURITY;
+ALTER TABLE workspace_members ENABLE ROW LEVEL SECURITY;
+
+-- Runs as owner so policies on workspace_members can use it without recursing
+CREATE OR REPLACE FUNCTION is_workspace_member(p_workspace text)
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM workspace_members
+    WHERE workspace = p_workspace
+    AND user_id = auth.jwt()->>'sub'
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION is_workspace_member(text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION is_workspace_member(text) TO authenticated;
+
+-- RLS Policies for workspaces
+CREATE POLICY "Members can view their workspaces"
+  ON workspaces FOR SELECT
+  TO authenticated
+  USING (is_workspace_member(name));
+
+-- RLS Policies for workspace_members
+CREATE POLICY "Members can view fellow members"
+  ON workspace_members FOR SELECT
+  TO authenticated
+  USING (is_workspace_member(workspace));
+
+CREATE POLICY "Members can leave workspaces"
+  ON workspace_members FOR DELETE
+  TO authenticated
+  USING (user_id = auth.jwt()->>'sub');
+
+-- Team read access
+CREATE POLICY "Members can view team analyses"
+  ON frame_analyses FOR SELECT
+  TO authenticated
+  USING (workspace <> '' AND is_workspace_member(workspace));
+
+CREATE POLICY "Members can view team waivers"
+  ON issue_waivers FOR SELECT
+  TO authenticated
+  USING (workspace <> '' AND is_workspace_member(workspace));
+
+-- Writing into a team workspace needs membership, on top of the ownership checks.
+-- Updates are covered too, or a row could be moved into a team the writer isn't in.
+CREATE POLICY "Team analyses need membership"
+  ON frame_analyses AS RESTRICTIVE FOR INSERT
+  TO authenticated
+  WITH CHECK (workspace = '' OR is_workspace_member(workspace));
+
+CREATE POLICY "Team analysis updates need membership"
+  ON frame_analyses AS RESTRICTIVE FOR UPDATE
+  TO authenticated
+  USING (true)
+  WITH CHECK (workspace = '' OR is_workspace_member(workspace));
+
+CREATE POLICY "Team sessions need membership"
+  ON analysis_sessions AS RESTRICTIVE FOR INSERT
+  TO authenticated
+  WITH CHECK (workspace = '' OR is_workspace_member(workspace));
+
+CREATE POLICY "Team session updates need membership"
+  ON analysis_sessions AS RESTRICTIVE FOR UPDATE
+  TO authenticated
+  USING (true)
+  WITH CHECK (workspace = '' OR is_workspace_member(workspace));
+
+CREATE POLICY "Team waivers need membership"
+  ON issue_waivers AS RESTRICTIVE FOR INSERT
+  TO authenticated
+  WITH CHECK (workspace = '' OR is_workspace_member(workspace));
+
+CREATE POLICY "Team waiver updates need membership"
+  ON issue_waivers AS RESTRICTIVE FOR UPDATE
+  TO authenticated
+  USING (true)
+  WITH CHECK (workspace = '' OR is_workspace_member(workspace));
+
+-- Frame changes carry their own scope now; the old policies matched on frame id alone
+DROP POLICY IF EXISTS "Users can view own frame changes" ON frame_changes;
+DROP POLICY IF EXISTS "Users can insert own frame changes" ON frame_changes;
+DROP POLICY IF EXISTS "Users can update own frame changes" ON frame_changes;
+
+CREATE POLICY "Users can view own and team frame changes"
+  ON frame_changes FOR SELECT
+  TO authenticated
+  USING (
+    (workspace = '' AND user_id = auth.jwt()->>'sub')
+    OR (workspace <> '' AND is_workspace_member(workspace))
+  );
+
+CREATE POLICY "Users can insert own and team frame changes"
+  ON frame_changes FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    user_id = auth.jwt()->>'sub'
+    AND (workspace = '' OR is_workspace_member(workspace))
+  );
+
+CREATE POLICY "Users can update own and team frame changes"
+  ON frame_changes FOR UPDATE
+  TO authenticated
+  USING (
+    (workspace = '' AND user_id = auth.jwt()->>'sub')
+    OR (workspace <> '' AND is_workspace_member(workspace))
+  )
+  WITH CHECK (
+    (workspace = '' AND user_id = auth.jwt()->>'sub')
+    OR (workspace <> '' AND is_workspace_member(workspace))
+  );
+
+-- Create or join a workspace
+CREATE OR REPLACE FUNCTION enter_workspace(p_workspace text, p_join_code text DEFAULT NULL)
+RETURNS jsonb AS $$
+DECLARE
+  v_user text := auth.jwt()->>'sub';
+  v_workspace workspaces%ROWTYPE;
+  v_role text;
+BEGIN
+  IF v_user IS NULL THEN
+    RAISE EXCEPTION 'Sign in before joining a workspace' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_workspace IS NULL OR length(trim(p_workspace)) = 0 THEN
+    RAISE EXCEPTION 'Workspace name is required' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO v_workspace FROM workspaces WHERE name = p_workspace;
+
+  IF NOT FOUND THEN
+    INSERT INTO workspaces (name, created_by)
+    VALUES (p_workspace, v_user)
+    RETURNING * INTO v_workspace;
+
+    INSERT INTO workspace_members (workspace, user_id, role)
+    VALUES (p_workspace, v_user, 'owner');
+
+    RETURN jsonb_build_object('role', 'owner', 'join_code', v_workspace.join_code);
+  END IF;
+
+  SELECT m.role INTO v_role
+  FROM workspace_members m
+  WHERE m.workspace = p_workspace
+  AND m.user_id = v_user;
+
+  IF FOUND THEN
+    RETURN jsonb_build_object(
+      'role', v_role,
+      'join_code', CASE WHEN v_role = 'owner' THEN v_workspace.join_code END
+    );
+  END IF;
+
+  IF p_join_code IS NULL OR p_join_code <> v_workspace.join_code THEN
+    RAISE EXCEPTION 'A valid join code is required for workspace %', p_workspace USING ERRCODE = '42501';
+  END IF;
+
+  INSERT INTO workspace_members (workspace, user_id, role)
+  VALUES (p_workspace, v_user, 'member');
+
+  RETURN jsonb_build_object('role', 'member', 'join_code', NULL);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION enter_workspace(text, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION enter_workspace(text, text) TO authenticated;
+
+-- Scope get_latest_analysis to a file
+DROP FUNCTION IF EXISTS get_latest_analysis(text, text);
+
+CREATE OR REPLACE FUNCTION get_latest_analysis(p_file_key text, p_frame_id text, p_workspace text DEFAULT '')
+RETURNS TABLE (
+  id uuid,
+  frame_id text,
+  frame_name text,
+  content_hash text,
+  total_issues integer,
+  fail_count integer,
+  warning_count integer,
+  analysis_data jsonb,
+  analyzed_at timestamptz,
+  has_changes boolean
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    fa.id,
+    fa.frame_id,
+    fa.frame_name,
+    fa.content_hash,
+    fa.total_issues,
+    fa.fail_count,
+    fa.warning_count,
+    fa.analysis_data,
+    fa.analyzed_at,
+    EXISTS(
+      SELECT 1 FROM frame_changes fc
+      WHERE fc.frame_id = fa.frame_id
+      AND fc.file_key = fa.file_key
+      AND fc.workspace = fa.workspace
+      AND (fc.workspace <> '' OR fc.user_id = fa.user_id)
+      AND fc.is_resolved = false
+    ) as has_changes
+  FROM frame_analyses fa
+  WHERE fa.file_key = p_file_key
+  AND fa.frame_id = p_frame_id
+  AND fa.workspace = p_workspace
+  AND fa.user_id = auth.jwt()->>'sub'
+  ORDER BY fa.analyzed_at DESC
+  LIMIT 1;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
+
+REVOKE EXECUTE ON FUNCTION get_latest_analysis(text, text, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION get_latest_analysis(text, text, text) TO authenticated;
+
+-- Scope change detection to a file and workspace
+DROP FUNCTION IF EXISTS detect_frame_change(text, text, text, timestamptz, uuid);
+
+CREATE OR REPLACE FUNCTION detect_frame_change(
+  p_frame_id text,
+  p_previous_hash text,
+  p_current_hash text,
+  p_detected_at timestamptz DEFAULT now(),
+  p_client_id uuid DEFAULT NULL,
+  p_file_key text DEFAULT '',
+  p_workspace text DEFAULT ''
+)
+RETURNS boolean AS $$
+DECLARE
+  v_has_changed boolean;
+BEGIN
+  v_has_changed := p_previous_hash != p_current_hash;
+
+  IF v_has_changed THEN
+    INSERT INTO frame_changes (frame_id, file_key, workspace, user_id, previous_hash, current_hash, change_detected_at, client_id)
+    VALUES (p_frame_id, p_file_key, p_workspace, auth.jwt()->>'sub', p_previous_hash, p_current_hash, p_detected_at, p_client_id)
+    ON CONFLICT (client_id) DO NOTHING;
+  END IF;
+
+  RETURN v_has_changed;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
+
+REVOKE EXECUTE ON FUNCTION detect_frame_change(text, text, text, timestamptz, uuid, text, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION detect_frame_change(text, text, text, timestamptz, uuid, text, text) TO authenticated;
+
+DROP FUNCTION IF EXISTS resolve_frame_changes(text);
+
+-- In a team workspace any member's audit resolves the change; in the default one only the writer's
+CREATE OR REPLACE FUNCTION resolve_frame_changes(p_frame_id text, p_file_key text DEFAULT '', p_workspace text DEFAULT '')
+RETURNS void AS $$
+BEGIN
+  UPDATE frame_changes
+  SET is_resolved = true
+  WHERE frame_id = p_frame_id
+  AND file_key = p_file_key
+  AND workspace = p_workspace
+  AND (p_workspace <> '' OR user_id = auth.jwt()->>'sub')
+  AND is_resolved = false;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
+
+REVOKE EXECUTE ON FUNCTION resolve_frame_changes(text, text, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION resolve_frame_changes(text, text, text) TO authenticated;
+
+-- Every audit of a frame the caller may see; RLS adds teammates' in team workspaces
+CREATE OR REPLACE FUNCTION get_frame_audits(
+  p_file_key text,
+  p_frame_id text,
+  p_workspace text DEFAULT '',
+  p_limit integer DEFAULT 50
+)
+RETURNS SETOF frame_analyses AS $$
+  SELECT *
+  FROM frame_analyses
+  WHERE file_key = p_file_key
+  AND frame_id = p_frame_id
+  AND workspace = p_workspace
+  ORDER BY analyzed_at DESC
+  LIMIT p_limit;
+$$ LANGUAGE sql STABLE SECURITY INVOKER;
+
+REVOKE EXECUTE ON FUNCTION get_frame_audits(text, text, text, integer) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION get_frame_audits(text, text, text, integer) TO authenticated;
+
+-- Latest audit of each frame in a file
+CREATE OR REPLACE FUNCTION get_file_overview(p_file_key text, p_workspace text DEFAULT '')
+RETURNS TABLE (
+  frame_id text,
+  frame_name text,
+  page_id text,
+  page_name text,
+  analysis_id uuid,
+  analyzed_at timestamptz,
+  author_name text,
+  total_issues integer,
+  fail_count integer,
+  warning_count integer,
+  waived_count integer,
+  audit_count bigint,
+  has_changes boolean
+) AS $$
+  WITH scoped AS (
+    SELECT * FROM frame_analyses
+    WHERE file_key = p_file_key
+    AND workspace = p_workspace
+  ),
+  latest AS (
+    SELECT DISTINCT ON (frame_id) *
+    FROM scoped
+    ORDER BY frame_id, analyzed_at DESC
+  )
+  SELECT
+    l.frame_id,
+    l.frame_name,
+    l.page_id,
+    l.page_name,
+    l.id,
+    l.analyzed_at,
+    l.author_name,
+    l.total_issues,
+    l.fail_count,
+    l.warning_count,
+    l.waived_count,
+    (SELECT count(*) FROM scoped s WHERE s.frame_id = l.frame_id),
+    EXISTS(
+      SELECT 1 FROM frame_changes fc
+      WHERE fc.frame_id = l.frame_id
+      AND fc.file_key = p_file_key
+      AND fc.workspace = p_workspace
+      AND (p_workspace <> '' OR fc.user_id = auth.jwt()->>'sub')
+      AND fc.is_resolved = false
+    )
+  FROM latest l
+  ORDER BY l.page_name, l.frame_name;
+$$ LANGUAGE sql STABLE SECURITY INVOKER;
+
+REVOKE EXECUTE ON FUNCTION get_file_overview(text, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION get_file_overview(text, text) TO authenticated;
+
+-- Report the new schema version
+CREATE OR REPLACE FUNCTION history_schema_version()
+RETURNS integer AS $$
+  SELECT 4;
+$$ LANGUAGE sql IMMUTABLE;
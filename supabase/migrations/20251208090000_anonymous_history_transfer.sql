@@ -0,0 +1,120 @@
+/*
+  # Anonymous History Transfer
+
+  ## Overview
+  Every machine starts with an anonymous account. Signing in with email now
+  upgrades that account in place (an email change on the anonymous user), so
+  its history keeps its `user_id`. When the email already belongs to another
+  account the plugin has to switch users instead; the anonymous account's
+  history is then handed over with a one-time transfer code that only the
+  anonymous account can create and only the signed-in account can redeem.
+
+  ## New Tables
+
+  ### `history_transfers`
+  **Columns:**
+  - `code` (uuid, primary key) - Secret returned to the anonymous account
+  - `from_user` (text) - Anonymous auth user id the history belongs to
+  - `created_at` (timestamptz) - Codes expire after an hour
+
+  ## New Functions
+  - `start_history_transfer()` - Called by an anonymous account before it signs
+    in to an existing one; returns a transfer code
+  - `claim_history_transfer(p_code)` - Called by the account that was signed
+    in to; moves the anonymous account's analyses, sessions, waivers, frame
+    changes and workspace memberships to the caller
+
+  ## Security
+  1. RLS is enabled on `history_transfers` with no policies; only the two
+     functions touch it
+  2. Only anonymous accounts can start a transfer, so a registered account's
+     history can never be moved away
+  3. A code can be redeemed once, within an hour
+
+  ## Schema Version
+  5
+*/
+
+-- Create history_transfers table
+CREATE TABLE IF NOT EXISTS history_transfers (
+  code uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  from_user text NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE history_transfers ENABLE ROW LEVEL SECURITY;
+
+-- Issue a transfer code for the calling anonymous account
+CREATE OR REPLACE FUNCTION start_history_transfer()
+RETURNS uuid AS $$
+DECLARE
+  v_user text := auth.jwt()->>'sub';
+  v_code uuid;
+BEGIN
+  IF v_user IS NULL OR coalesce((auth.jwt()->>'is_anonymous')::boolean, false) = false THEN
+    RAISE EXCEPTION 'Only anonymous accounts can transfer their history' USING ERRCODE = '42501';
+  END IF;
+
+  DELETE FROM history_transfers WHERE created_at < now() - interval '1 hour';
+
+  INSERT INTO history_transfers (from_user)
+  VALUES (v_user)
+  RETURNING code INTO v_code;
+
+  RETURN v_code;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION start_history_transfer() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION start_history_transfer() TO authenticated;
+
+-- Move an anonymous account's history to the caller
+CREATE OR REPLACE FUNCTION claim_history_transfer(p_code uuid)
+RETURNS void AS $$
+DECLARE
+  v_user text := auth.jwt()->>'sub';
+  v_from text;
+BEGIN
+  IF v_user IS NULL THEN
+    RAISE EXCEPTION 'Sign in before claiming history' USING ERRCODE = '42501';
+  END IF;
+
+  DELETE FROM history_transfers
+  WHERE code = p_code
+  AND created_at >= now() - interval '1 hour'
+  RETURNING from_user INTO v_from;
+
+  IF v_from IS NULL THEN
+    RAISE EXCEPTION 'Transfer code is invalid or has expired' USING ERRCODE = '42501';
+  END IF;
+
+  IF v_from = v_user THEN
+    RETURN;
+  END IF;
+
+  UPDATE frame_analyses SET user_id = v_user WHERE user_id = v_from;
+  UPDATE analysis_sessions SET user_id = v_user WHERE user_id = v_from;
+  UPDATE issue_waivers SET user_id = v_user WHERE user_id = v_from;
+  UPDATE frame_changes SET user_id = v_user WHERE user_id = v_from;
+  UPDATE workspaces SET created_by = v_user WHERE created_by = v_from;
+
+  -- Keep the stronger role when both accounts were in the same workspace
+  INSERT INTO workspace_members (workspace, user_id, role, joined_at)
+  SELECT workspace, v_user, role, joined_at
+  FROM workspace_members
+  WHERE user_id = v_from
+  ON CONFLICT (workspace, user_id) DO UPDATE
+  SET role = CASE WHEN excluded.role = 'owner' THEN 'owner' ELSE workspace_members.role END;
+
+  DELETE FROM workspace_members WHERE user_id = v_from;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION claim_history_transfer(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION claim_history_transfer(uuid) TO authenticated;
+
+-- Report the new schema version
+CREATE OR REPLACE FUNCTION history_schema_version()
+RETURNS integer AS $$
+  SELECT 5;
+$$ LANGUAGE sql IMMUTABLE;